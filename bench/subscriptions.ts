@@ -0,0 +1,131 @@
+/**
+ * Compares how fast waiters on many distinct keys are woken up with a
+ * SUBSCRIBE and UNSUBSCRIBE per key ('channel') and with one PSUBSCRIBE
+ * ('pattern'). Needs a Redis on localhost:6379.
+ *
+ *   npm run bench -- [keys per round] [rounds]
+ */
+import Redis from 'ioredis';
+
+import MemolockCache, { createIORedisAdapter, RedisAdapter } from '../src';
+
+const KEYS = Number(process.argv[2] ?? 2000);
+const ROUNDS = Number(process.argv[3] ?? 5);
+const OPT = { ttlMs: 10000, lockTimeout: 10000 };
+
+type Mode = 'channel' | 'pattern';
+
+// Counts the subscription commands sent on the subscriber connection
+function countSubscriptions(adapter: RedisAdapter) {
+  const counts = { commands: 0 };
+  const count =
+    <A extends unknown[]>(command: (...args: A) => Promise<unknown>) =>
+    (...args: A) => {
+      counts.commands++;
+      return command(...args);
+    };
+  return {
+    counts,
+    adapter: {
+      ...adapter,
+      subscribe: count(adapter.subscribe),
+      unsubscribe: count(adapter.unsubscribe),
+      psubscribe: count(adapter.psubscribe),
+    },
+  };
+}
+
+// Resolves once `event` has fired `times` times
+function waitForEvents(
+  cache: MemolockCache,
+  event: 'lockAcquired' | 'lockWait',
+  times: number,
+) {
+  return new Promise<void>((resolve) => {
+    let seen = 0;
+    const off = cache.on(event, () => {
+      if (++seen === times) {
+        off();
+        resolve();
+      }
+    });
+  });
+}
+
+async function round(
+  holder: MemolockCache,
+  waiter: MemolockCache,
+  keys: string[],
+): Promise<number> {
+  // The holder takes every lock, so the waiter has to wait on every key
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const locked = waitForEvents(holder, 'lockAcquired', keys.length);
+  const held = keys.map((key) =>
+    holder.get(key, OPT, async () => {
+      await released;
+      return key;
+    }),
+  );
+  await locked;
+
+  const start = Date.now();
+  const waiting = waitForEvents(waiter, 'lockWait', keys.length);
+  const waited = keys.map((key) =>
+    waiter.get(key, OPT, async () => {
+      throw new Error(`${key} should have been waited for`);
+    }),
+  );
+  // Recheck wakes up waiters whose SUBSCRIBE lands after the publish
+  await waiting;
+  release();
+  await Promise.all([...held, ...waited]);
+  return Date.now() - start;
+}
+
+async function run(mode: Mode) {
+  const prefix = `bench:${mode}:${Date.now()}:`;
+  const holder = new MemolockCache({ prefix });
+  const { counts, adapter } = countSubscriptions(
+    createIORedisAdapter(new Redis()),
+  );
+  const waiter = new MemolockCache({
+    prefix,
+    redisSubClient: adapter,
+    wakeUp: 'recheck',
+    subscriptions: mode,
+  });
+
+  // Warm up the connections and, in pattern mode, the PSUBSCRIBE
+  await round(holder, waiter, ['warmup']);
+  counts.commands = 0;
+
+  let totalMs = 0;
+  for (let i = 0; i < ROUNDS; i++) {
+    const keys = Array.from({ length: KEYS }, (_, j) => `${i}:${j}`);
+    totalMs += await round(holder, waiter, keys);
+  }
+  await Promise.all([holder.disconnect(), waiter.disconnect()]);
+
+  const waits = KEYS * ROUNDS;
+  return {
+    mode,
+    'waits/s': Math.round(waits / (totalMs / 1000)),
+    'ms/round': Math.round(totalMs / ROUNDS),
+    'subscription commands': counts.commands,
+  };
+}
+
+async function main() {
+  console.log(`${KEYS} keys waited on per round, ${ROUNDS} rounds`);
+  const results = [];
+  for (const mode of ['channel', 'pattern'] as const) {
+    results.push(await run(mode));
+  }
+  console.table(results);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
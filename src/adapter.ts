@@ -0,0 +1,63 @@
+import type { Payload } from './envelope';
+
+export type Ok = 'OK';
+
+export type EvalArg = Payload | number;
+
+export type SetOpt = {
+  px: number;
+  nx?: boolean;
+};
+
+// The commands memolock runs together with RedisAdapter.multi. 'spublish'
+// is only used with adapters that have spublish.
+export type RedisCommand =
+  | ({ name: 'set'; key: string; value: Payload } & SetOpt)
+  | { name: 'publish'; channel: string; message: Payload }
+  | { name: 'spublish'; channel: string; message: Payload }
+  | { name: 'eval'; script: string; keys: string[]; args: EvalArg[] };
+
+/**
+ * The Redis commands memolock uses, so it can run on any client. Commands
+ * and subscriptions need separate connections, so memolock is given one
+ * adapter for each.
+ */
+export interface RedisAdapter {
+  // On a Cluster, lock keys are hash tagged and multis split by slot
+  readonly clustered: boolean;
+
+  get(key: string): Promise<string | null>;
+  getBuffer(key: string): Promise<Buffer | null>;
+  mget(keys: string[]): Promise<(string | null)[]>;
+  mgetBuffer(keys: string[]): Promise<(Buffer | null)[]>;
+  pttl(key: string): Promise<number>;
+  // Resolves to null if NX kept the value from being set
+  set(key: string, value: Payload, opt: SetOpt): Promise<Ok | null>;
+  del(key: string): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  publish(channel: string, message: Payload): Promise<number>;
+  eval(script: string, keys: string[], args: EvalArg[]): Promise<unknown>;
+  // Runs the commands atomically in one round trip, resolving to each
+  // command's reply, or its error if it failed
+  multi(commands: RedisCommand[]): Promise<unknown[]>;
+
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  psubscribe(pattern: string): Promise<unknown>;
+  // Called with messages on every subscribed channel, and every channel
+  // matching a psubscribed pattern
+  onMessage(listener: (channel: string, message: Buffer) => void): void;
+
+  // Sharded pub/sub (Redis 7), which a Cluster only sends to the channel's
+  // shard. Used for waiters when both adapters are clustered and have them,
+  // and onMessage must then also get the sharded messages.
+  spublish?(channel: string, message: Payload): Promise<number>;
+  ssubscribe?(channel: string): Promise<unknown>;
+  sunsubscribe?(channel: string): Promise<unknown>;
+
+  quit(): Promise<unknown>;
+}
+
+export function isRedisAdapter(client: object): client is RedisAdapter {
+  return 'onMessage' in client;
+}
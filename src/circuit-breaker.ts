@@ -0,0 +1,133 @@
+import type { RedisAdapter } from './adapter';
+
+export type CircuitBreakerOpt = {
+  // Consecutive Redis errors that open the breaker
+  failureThreshold?: number;
+  // How long the breaker stays open before probing Redis again
+  resetTimeoutMs?: number;
+};
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 10000;
+
+/**
+ * Reported to errorHandler when the circuit breaker opens or closes. When
+ * it opens, `cause` is the Redis error that tipped it over.
+ */
+export class CircuitBreakerError extends Error {
+  constructor(
+    public readonly state: 'open' | 'closed',
+    public readonly cause?: unknown,
+  ) {
+    super(
+      state === 'open'
+        ? 'Redis is failing, fetching without the cache.'
+        : 'Redis is back, using the cache again.',
+    );
+    this.name = 'CircuitBreakerError';
+  }
+}
+
+/**
+ * Counts consecutive errors from Redis commands. Once there are enough of
+ * them the breaker opens, so callers can skip Redis instead of failing.
+ * After resetTimeoutMs, a single probe checks on Redis and any successful
+ * command closes the breaker.
+ */
+export class CircuitBreaker {
+  // The client to use, which reports every reply to the breaker
+  readonly redisClient: RedisAdapter;
+  private failures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor(
+    redisClient: RedisAdapter,
+    private readonly opt: CircuitBreakerOpt,
+    private readonly probe: () => Promise<unknown>,
+    private readonly onChange: (err: CircuitBreakerError) => void,
+  ) {
+    this.redisClient = this.track(redisClient);
+  }
+
+  isOpen(): boolean {
+    if (this.openedAt === undefined) {
+      return false;
+    }
+
+    const resetTimeoutMs = this.opt.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+    if (!this.probing && Date.now() - this.openedAt >= resetTimeoutMs) {
+      this.probing = true;
+      const probed = () => {
+        this.probing = false;
+      };
+      this.probe().then(probed, () => {
+        // Wait out another resetTimeoutMs before the next probe
+        this.openedAt = Date.now();
+        probed();
+      });
+    }
+    return true;
+  }
+
+  private track(redisClient: RedisAdapter): RedisAdapter {
+    const track = <T>(reply: Promise<T>) =>
+      reply.then(
+        (result) => {
+          this.succeed();
+          return result;
+        },
+        (err) => {
+          this.fail(err);
+          throw err;
+        },
+      );
+    const { spublish } = redisClient;
+
+    return {
+      clustered: redisClient.clustered,
+      get: (key) => track(redisClient.get(key)),
+      getBuffer: (key) => track(redisClient.getBuffer(key)),
+      mget: (keys) => track(redisClient.mget(keys)),
+      mgetBuffer: (keys) => track(redisClient.mgetBuffer(keys)),
+      pttl: (key) => track(redisClient.pttl(key)),
+      set: (key, value, opt) => track(redisClient.set(key, value, opt)),
+      del: (key) => track(redisClient.del(key)),
+      smembers: (key) => track(redisClient.smembers(key)),
+      publish: (channel, message) =>
+        track(redisClient.publish(channel, message)),
+      eval: (script, keys, args) => track(redisClient.eval(script, keys, args)),
+      multi: (commands) => track(redisClient.multi(commands)),
+      subscribe: (channel) => redisClient.subscribe(channel),
+      unsubscribe: (channel) => redisClient.unsubscribe(channel),
+      psubscribe: (pattern) => redisClient.psubscribe(pattern),
+      onMessage: (listener) => redisClient.onMessage(listener),
+      spublish:
+        spublish &&
+        ((channel, message) =>
+          track(spublish.call(redisClient, channel, message))),
+      ssubscribe: redisClient.ssubscribe?.bind(redisClient),
+      sunsubscribe: redisClient.sunsubscribe?.bind(redisClient),
+      quit: () => redisClient.quit(),
+    };
+  }
+
+  private succeed() {
+    this.failures = 0;
+    if (this.openedAt !== undefined) {
+      this.openedAt = undefined;
+      this.onChange(new CircuitBreakerError('closed'));
+    }
+  }
+
+  private fail(err: unknown) {
+    this.failures++;
+    const threshold = this.opt.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    if (this.openedAt === undefined && this.failures >= threshold) {
+      this.openedAt = Date.now();
+      this.onChange(new CircuitBreakerError('open', err));
+    }
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,63 @@
+import type { RedisAdapter, RedisCommand } from './adapter';
+
+/**
+ * The part of a key Redis Cluster hashes to pick its slot: the first
+ * non-empty `{...}`, or else the whole key.
+ */
+export function hashTag(key: string): string {
+  const start = key.indexOf('{');
+  const end = key.indexOf('}', start + 1);
+  return start !== -1 && end > start + 1 ? key.slice(start + 1, end) : key;
+}
+
+/**
+ * Derives a key that's in the same slot as `key`, so both can be used in
+ * one multi. Keys with a hash tag already share it with the derived key.
+ * Keys with stray braces can't be hash tagged and may land elsewhere.
+ */
+export function withSameSlot(key: string, suffix: string): string {
+  return key.includes('{') || key.includes('}')
+    ? key + suffix
+    : `{${key}}${suffix}`;
+}
+
+/**
+ * Queues commands to run together with RedisAdapter.multi. On a Cluster,
+ * they're split into one multi per hash tag, since a multi may only touch a
+ * single slot. Commands added for the same key still run in order.
+ */
+export class SlotPipeline {
+  private groups = new Map<string, RedisCommand[]>();
+  private batches: { commands: RedisCommand[]; start: number; end: number }[] =
+    [];
+
+  constructor(private readonly redisClient: RedisAdapter) {}
+
+  // The commands must only use keys in the same slot as `key`
+  add(key: string, ...commands: RedisCommand[]) {
+    const group = this.redisClient.clustered ? hashTag(key) : '';
+    const groupCommands = this.groups.get(group) ?? [];
+    this.groups.set(group, groupCommands);
+
+    const start = groupCommands.length;
+    groupCommands.push(...commands);
+    this.batches.push({
+      commands: groupCommands,
+      start,
+      end: start + commands.length,
+    });
+  }
+
+  // Replies are in the order the commands were added
+  async exec(): Promise<unknown[]> {
+    const groups = Array.from(this.groups.values());
+    const replies = await Promise.all(
+      groups.map((commands) => this.redisClient.multi(commands)),
+    );
+    return this.batches.reduce<unknown[]>(
+      (all, { commands, start, end }) =>
+        all.concat(replies[groups.indexOf(commands)].slice(start, end)),
+      [],
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  constants,
+  deflateSync,
+  gzipSync,
+  inflateSync,
+  gunzipSync,
+} from 'zlib';
+
+import type { Payload } from './envelope';
+
+export type CompressionAlgorithm = 'gzip' | 'deflate' | 'brotli';
+
+export type CompressOpt = {
+  algorithm?: CompressionAlgorithm;
+  // Only compress encoded values at least this many bytes long
+  thresholdBytes?: number;
+};
+
+const DEFAULT_THRESHOLD_BYTES = 1024;
+
+// Brotli's default quality (11) is far too slow for values on the hot path
+const BROTLI_QUALITY = 5;
+
+/**
+ * Returns the compressed payload along with the algorithm used, or null if
+ * the payload is below the threshold. Strings are compressed to base64 so
+ * they stay strings; Buffers stay raw bytes.
+ */
+export function compress<P extends Payload>(
+  payload: P,
+  opt: CompressOpt,
+): { payload: P; algorithm: CompressionAlgorithm } | null {
+  if (
+    Buffer.byteLength(payload) < (opt.thresholdBytes ?? DEFAULT_THRESHOLD_BYTES)
+  ) {
+    return null;
+  }
+
+  const algorithm = opt.algorithm ?? 'gzip';
+  const input = Buffer.from(payload);
+  let compressed: Buffer;
+  if (algorithm === 'brotli') {
+    compressed = brotliCompressSync(input, {
+      params: { [constants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY },
+    });
+  } else if (algorithm === 'deflate') {
+    compressed = deflateSync(input);
+  } else {
+    compressed = gzipSync(input);
+  }
+
+  return {
+    payload: (typeof payload === 'string'
+      ? compressed.toString('base64')
+      : compressed) as P,
+    algorithm,
+  };
+}
+
+export function decompress<P extends Payload>(
+  payload: P,
+  algorithm: CompressionAlgorithm,
+): P {
+  const input =
+    typeof payload === 'string' ? Buffer.from(payload, 'base64') : payload;
+  let decompressed: Buffer;
+  if (algorithm === 'brotli') {
+    decompressed = brotliDecompressSync(input);
+  } else if (algorithm === 'deflate') {
+    decompressed = inflateSync(input);
+  } else {
+    decompressed = gunzipSync(input);
+  }
+
+  return (
+    typeof payload === 'string' ? decompressed.toString() : decompressed
+  ) as P;
+}
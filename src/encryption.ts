@@ -0,0 +1,83 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+export type EncryptionCodecOpt<T> = {
+  // 32 byte AES-256 keys by id. Keep retired keys here until every value
+  // encrypted with them has expired.
+  keys: { [keyId: string]: Buffer };
+  // The key new values are encrypted with
+  currentKeyId: string;
+  // Turn the data into the plaintext and back
+  encode?: (data: T) => string;
+  decode?: (data: string) => T;
+};
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+// Ciphertexts look like `enc:v1:<keyId>:<base64 of iv, tag and ciphertext>`
+const PREFIX = 'enc:v1:';
+
+/**
+ * AES-256-GCM codec for the `encode`/`decode` options. The key id is stored
+ * with each value (and authenticated), so keys can be rotated while values
+ * encrypted with older keys stay readable.
+ */
+export function createEncryptionCodec<T>(opt: EncryptionCodecOpt<T>): {
+  encode: (data: T) => string;
+  decode: (data: string) => T;
+} {
+  Object.keys(opt.keys).forEach((keyId) => {
+    if (opt.keys[keyId].length !== KEY_BYTES) {
+      throw new Error(`Encryption key "${keyId}" must be ${KEY_BYTES} bytes.`);
+    }
+  });
+  if (!opt.keys[opt.currentKeyId]) {
+    throw new Error(`Unknown encryption key "${opt.currentKeyId}".`);
+  }
+
+  const encode = opt.encode ?? ((data: T) => JSON.stringify(data) ?? 'null');
+  const decode = opt.decode ?? ((data: string) => JSON.parse(data));
+
+  return {
+    encode: (data: T) => {
+      const keyId = opt.currentKeyId;
+      const iv = randomBytes(IV_BYTES);
+      const cipher = createCipheriv(ALGORITHM, opt.keys[keyId], iv);
+      cipher.setAAD(Buffer.from(keyId));
+      const ciphertext = Buffer.concat([
+        cipher.update(encode(data)),
+        cipher.final(),
+      ]);
+      const sealed = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+      return `${PREFIX}${keyId}:${sealed.toString('base64')}`;
+    },
+    decode: (data: string) => {
+      // base64 has no colons, so the key id is everything before the last
+      const separator = data.lastIndexOf(':');
+      if (!data.startsWith(PREFIX) || separator < PREFIX.length) {
+        throw new Error('Value is not encrypted.');
+      }
+
+      const keyId = data.slice(PREFIX.length, separator);
+      const key = opt.keys[keyId];
+      if (!key) {
+        throw new Error(`Unknown encryption key "${keyId}".`);
+      }
+
+      const sealed = Buffer.from(data.slice(separator + 1), 'base64');
+      const decipher = createDecipheriv(
+        ALGORITHM,
+        key,
+        sealed.slice(0, IV_BYTES),
+      );
+      decipher.setAAD(Buffer.from(keyId));
+      decipher.setAuthTag(sealed.slice(IV_BYTES, IV_BYTES + TAG_BYTES));
+      const plaintext = Buffer.concat([
+        decipher.update(sealed.slice(IV_BYTES + TAG_BYTES)),
+        decipher.final(),
+      ]);
+      return decode(plaintext.toString());
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import type { CompressionAlgorithm } from './compression';
+
+// Everything memolock writes to a key or publishes on a channel is either
+// the raw encoded data (the original format) or an envelope: a small JSON
+// header in front of the payload. JSON.stringify never starts with this
+// prefix, so raw values from older versions are still read correctly.
+const ENVELOPE_PREFIX = '\u0000memolock:';
+
+export interface EnvelopeHeader {
+  // Epoch ms after which a stored value is stale
+  e?: number;
+  // How long the fetch that produced the value took, in ms
+  d?: number;
+  // The holder's fetch failed with this error. Stored in a key, it is a
+  // failure cached with errorTtlMs.
+  f?: { name: string; message: string };
+  // Lock heartbeat: the holder is still fetching, keep waiting this long
+  h?: number;
+  // The payload is the encoded data compressed with this (as base64,
+  // unless the value is binary)
+  z?: CompressionAlgorithm;
+}
+
+// Binary values (the binary option) use the same layout, in bytes
+const ENVELOPE_PREFIX_BYTES = Buffer.from(ENVELOPE_PREFIX);
+
+export type Payload = string | Buffer;
+
+export function wrap(header: EnvelopeHeader, payload?: string): string;
+export function wrap(header: EnvelopeHeader, payload: Buffer): Buffer;
+export function wrap(header: EnvelopeHeader, payload: Payload): Payload;
+export function wrap(header: EnvelopeHeader, payload: Payload = ''): Payload {
+  // JSON.stringify escapes newlines, so the first one ends the header
+  const prefix = ENVELOPE_PREFIX + JSON.stringify(header) + '\n';
+  return typeof payload === 'string'
+    ? prefix + payload
+    : Buffer.concat([Buffer.from(prefix), payload]);
+}
+
+export function unwrap<P extends Payload>(
+  message: P,
+): {
+  header: EnvelopeHeader | null;
+  payload: P;
+} {
+  const isEnvelope =
+    typeof message === 'string'
+      ? message.startsWith(ENVELOPE_PREFIX)
+      : ENVELOPE_PREFIX_BYTES.equals(
+          message.slice(0, ENVELOPE_PREFIX_BYTES.length),
+        );
+  if (!isEnvelope) {
+    return { header: null, payload: message };
+  }
+
+  const headerEnd = message.indexOf('\n');
+  return {
+    header: JSON.parse(
+      message.slice(ENVELOPE_PREFIX_BYTES.length, headerEnd).toString(),
+    ),
+    payload: message.slice(headerEnd + 1) as P,
+  };
+}
+
+export function heartbeat(extendMs: number): string {
+  return wrap({ h: extendMs });
+}
+
+export function fetchFailure(err: unknown): string {
+  const { name = 'Error', message = String(err) } = (err ?? {}) as Error;
+  return wrap({ f: { name, message } });
+}
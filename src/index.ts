@@ -1,27 +1,119 @@
-import Redis, { Ok } from 'ioredis';
+import { randomBytes } from 'crypto';
+import Redis from 'ioredis';
 
-import RedisUtilService from './redis-util';
+import { isRedisAdapter, Ok, RedisAdapter, RedisCommand } from './adapter';
+import CircuitBreaker, {
+  CircuitBreakerError,
+  CircuitBreakerOpt,
+} from './circuit-breaker';
+import { SlotPipeline } from './cluster';
+import { compress, CompressOpt, decompress } from './compression';
+import { createEncryptionCodec, EncryptionCodecOpt } from './encryption';
+import {
+  EnvelopeHeader,
+  fetchFailure,
+  heartbeat,
+  Payload,
+  unwrap,
+  wrap,
+} from './envelope';
+import {
+  createIORedisAdapter,
+  IORedisClient,
+  RedisClient,
+} from './ioredis-adapter';
+import { getChannel, getChannelPattern, getLockKey } from './keys';
+import LocalCache, { LocalCacheOpt } from './local-cache';
+import MemoryRedis, { MemoryRedisOpt } from './memory-redis';
+import MetricsCollector, { MetricsOpt } from './metrics';
+import { createNodeRedisAdapter, NodeRedisClient } from './node-redis-adapter';
+import RedisUtilService, { RemoteFetchError, WakeUpMode } from './redis-util';
+import {
+  BUMP_GENERATION_SCRIPT,
+  INVALIDATE_TAGS_SCRIPT,
+  RELEASE_LOCK_SCRIPT,
+  RENEW_LOCK_SCRIPT,
+  TAG_KEY_SCRIPT,
+} from './scripts';
+import {
+  MemolockSpan,
+  MemolockTracer,
+  SpanAttributeValue,
+  withSpan,
+} from './tracing';
+import { validate, ValidationError, Validator } from './validation';
+
+export type {
+  CircuitBreakerOpt,
+  CompressOpt,
+  EncryptionCodecOpt,
+  LocalCacheOpt,
+  MemolockSpan,
+  MemolockTracer,
+  MemoryRedisOpt,
+  IORedisClient,
+  MetricsOpt,
+  NodeRedisClient,
+  Ok,
+  RedisAdapter,
+  RedisCommand,
+  SpanAttributeValue,
+  Validator,
+  WakeUpMode,
+};
+export {
+  CircuitBreakerError,
+  createEncryptionCodec,
+  createIORedisAdapter,
+  createNodeRedisAdapter,
+  MemoryRedis,
+  RemoteFetchError,
+  ValidationError,
+};
 
 export type MemolockConstructorOpt = {
-  redisClient?: Redis.Redis;
-  redisSubClient?: Redis.Redis;
+  // ioredis v4 or v5 clients, or adapters for any other client
+  redisClient?: RedisClient | IORedisClient | RedisAdapter;
+  redisSubClient?: RedisClient | IORedisClient | RedisAdapter;
 
   redisPort?: number;
   redisHost?: string;
   redisOptions?: Redis.RedisOptions;
   errorHandler?: (err: Error) => void;
+  // Prepended to every key, lock, tag and channel, to share a Redis safely
+  prefix?: string;
+
+  localCache?: LocalCacheOpt;
+  metrics?: boolean | MetricsOpt;
+  tracer?: MemolockTracer;
+  // Fetch without the cache while Redis is failing
+  circuitBreaker?: boolean | CircuitBreakerOpt;
+  // How waiters learn a value is ready (default: 'pubsub')
+  wakeUp?: WakeUpMode;
+  // Wait on every key through one PSUBSCRIBE (default: 'channel')
+  subscriptions?: 'channel' | 'pattern';
 };
 
 export interface MemolockOpt<T> {
   ttlMs?: number | ((data: T) => number);
+  staleTtlMs?: number;
+  earlyRefreshBeta?: number;
   lockTimeout?: number;
+  renewLock?: boolean;
   maxAttempts?: number;
+  propagateFetchErrors?: boolean;
+  errorTtlMs?: number;
+  cacheErrorIf?: (err: unknown) => boolean;
   forceRefresh?: boolean;
 
+  binary?: false;
   encode?: (data: T) => string;
   decode?: (data: string) => T;
+  compress?: boolean | CompressOpt;
+  validate?: Validator<T>;
 
   cacheIf?: (data: T) => boolean;
+  tags?: string[] | ((data: T) => string[]);
 }
 
 export interface MemolockOptWithTtl<T> extends MemolockOpt<T> {
@@ -30,45 +122,188 @@ export interface MemolockOptWithTtl<T> extends MemolockOpt<T> {
 
 export interface MemolockOptForClient<T, U> extends MemolockOptWithTtl<T> {
   getKey: (keyVal: U) => string;
+  name?: string;
+  version?: string | number;
+  fetchMany?: (keyVals: U[]) => T[] | Promise<T[]>;
+  localCache?: LocalCacheOpt;
 }
 
 export interface MemlockSetOpt<T> {
   ttlMs: number | ((data: T) => number);
+  staleTtlMs?: number;
+  binary?: false;
   encode?: (data: T) => string;
+  compress?: boolean | CompressOpt;
+  tags?: string[] | ((data: T) => string[]);
+}
+
+/**
+ * Stores and publishes values as Buffers instead of strings, e.g. for
+ * protobuf or images.
+ */
+export interface BinaryCodec<T> {
+  binary: true;
+  encode: (data: T) => Buffer;
+  decode: (data: Buffer) => T;
 }
 
+export type WithBinaryCodec<O, T> = Omit<O, 'binary' | 'encode' | 'decode'> &
+  BinaryCodec<T>;
+
+// Options with either the default string codec or the Buffer codec
+export type AnyCodec<O, T> = O | WithBinaryCodec<O, T>;
+
 export interface CacheClient<T, U> {
-  get(keyVal: U, opt?: MemolockOpt<T>): Promise<T>;
+  get(keyVal: U, opt?: AnyCodec<MemolockOpt<T>, T>): Promise<T>;
+  getMany(keyVals: U[], opt?: AnyCodec<MemolockOpt<T>, T>): Promise<T[]>;
   delete(keyVal: U): Promise<number>;
   set(keyVal: U, data: T): Promise<Ok | null>;
+  invalidateAll(): Promise<void>;
+}
+
+interface MemolockEvent {
+  key: string;
+  // The CacheClient's name, or 'default'
+  client: string;
 }
 
+export interface MemolockEvents {
+  hit: MemolockEvent & { source: 'local' | 'redis' };
+  miss: MemolockEvent;
+  lockAcquired: MemolockEvent;
+  lockWait: MemolockEvent;
+  lockWaitEnd: MemolockEvent & { durationMs: number };
+  waitTimeout: MemolockEvent & { attempt: number };
+  retry: MemolockEvent & { attempt: number };
+  fetchSuccess: MemolockEvent & { durationMs: number };
+  fetchError: MemolockEvent & { durationMs: number; error: unknown };
+  decodeError: MemolockEvent & { error: unknown };
+  validationError: MemolockEvent & { error: ValidationError };
+  maxAttemptsExceeded: MemolockEvent & { attempts: number };
+}
+
+type EventListener<E extends keyof MemolockEvents> = (
+  event: MemolockEvents[E],
+) => void;
+
+// Keys deleted or overwritten are published here so every process can
+// drop its local copies.
+const INVALIDATION_CHANNEL = 'memolock:invalidate';
+// Each CacheClient name's generation lives here, and bumps to it are
+// published on a channel of the same name.
+const GENERATION_KEY = 'memolock:generation:';
+// How long a generation is trusted before it's read again, in case a bump
+// published to this process was lost
+const GENERATION_TTL_MS = 1000;
+// Read by the circuit breaker to check whether Redis is back
+const PROBE_KEY = 'memolock:probe';
+
 const DEFAULT_LOCK_TIMEOUT = 1000;
 const DEFAULT_MAX_ATTEMPTS = 3;
+// With renewLock, the lock is extended this many times per lockTimeout
+const LOCK_RENEWAL_DIVISOR = 3;
+
+type Codec<T> =
+  | Pick<MemolockOpt<T>, 'binary' | 'encode' | 'decode'>
+  | BinaryCodec<T>;
+
+// Per-client state threaded through a get. MemolockCache.get uses a
+// default client shared by everything that isn't a CacheClient.
+interface ClientContext {
+  name: string;
+  localCache?: LocalCache;
+}
+
+type OwnedLock = { key: string; token: string };
+
+type Generation = {
+  generation: Promise<number>;
+  // The last generation read or published, if any
+  known?: number;
+  expiresAt: number;
+};
 
 export class MemolockCache {
-  private redisClient: Redis.Redis;
-  private redisSubClient: Redis.Redis;
+  private redisClient: RedisAdapter;
+  private redisSubClient: RedisAdapter;
   private isLockedCache: Set<string>;
   private redisUtil: RedisUtilService;
   private errorHandler?: (err: Error) => void;
+  private defaultClient: ClientContext;
+  // Every local cache in use, so deletes and sets can evict from all of them
+  private localCaches = new Set<LocalCache>();
+  private invalidationListeners = new Set<(key: string) => void>();
+  private isSubscribedToInvalidations = false;
+  private eventListeners: { [event: string]: Set<unknown> } = {};
+  private metricsCollector?: MetricsCollector;
+  private tracer?: MemolockTracer;
+  private prefix: string;
+  // Current generation by generation key, kept up to date by pub/sub
+  private generations = new Map<string, Generation>();
+  private generationSubscriptions = new Map<string, Promise<void>>();
+  private circuitBreaker?: CircuitBreaker;
+  // Gets in flight by key, for other gets of the same key to share
+  private inFlight = new Map<string, Promise<unknown>>();
+  // Whether values are published to waiters with SPUBLISH
+  private sharded: boolean;
 
   constructor(opt?: MemolockConstructorOpt) {
     /* istanbul ignore next */
-    this.redisClient =
+    this.redisClient = this.toAdapter(
       opt?.redisClient ??
-      new Redis(opt?.redisPort, opt?.redisHost, opt?.redisOptions);
+        new Redis(opt?.redisPort, opt?.redisHost, opt?.redisOptions),
+    );
     /* istanbul ignore next */
-    this.redisSubClient =
+    this.redisSubClient = this.toAdapter(
       opt?.redisSubClient ??
-      new Redis(opt?.redisPort, opt?.redisHost, opt?.redisOptions);
+        new Redis(opt?.redisPort, opt?.redisHost, opt?.redisOptions),
+    );
+
+    // On a Cluster, values go only to their key's shard instead of every
+    // node, if both clients can. There's no sharded PSUBSCRIBE.
+    this.sharded =
+      this.redisClient.clustered &&
+      opt?.subscriptions !== 'pattern' &&
+      !!this.redisClient.spublish &&
+      !!this.redisSubClient.ssubscribe &&
+      !!this.redisSubClient.sunsubscribe;
 
     this.isLockedCache = new Set();
     this.errorHandler = opt?.errorHandler;
+    this.tracer = opt?.tracer;
+    this.prefix = opt?.prefix ?? '';
+    if (opt?.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(
+        this.redisClient,
+        opt.circuitBreaker === true ? {} : opt.circuitBreaker,
+        () => this.redisClient.pttl(this.getRedisKey(PROBE_KEY)),
+        (err) => {
+          if (this.errorHandler) {
+            this.errorHandler(err);
+          }
+        },
+      );
+      this.redisClient = this.circuitBreaker.redisClient;
+    }
     this.redisUtil = new RedisUtilService(
       this.redisSubClient,
       this.errorHandler,
+      opt?.wakeUp,
+      opt?.subscriptions === 'pattern'
+        ? getChannelPattern(this.prefix)
+        : undefined,
+      this.sharded,
     );
+    this.defaultClient = {
+      name: 'default',
+      localCache: opt?.localCache && this.createLocalCache(opt.localCache),
+    };
+    if (opt?.metrics) {
+      this.metricsCollector = new MetricsCollector(
+        this,
+        opt.metrics === true ? {} : opt.metrics,
+      );
+    }
   }
 
   async disconnect() {
@@ -84,171 +319,1276 @@ export class MemolockCache {
   }
 
   new<T, U>(
-    clientOpt: MemolockOptForClient<T, U>,
+    clientOpt: AnyCodec<MemolockOptForClient<T, U>, T>,
     fetch: (keyVal: U) => T | Promise<T>,
   ): CacheClient<T, U> {
+    const client: ClientContext = {
+      name: clientOpt.name ?? this.defaultClient.name,
+      localCache: clientOpt.localCache
+        ? this.createLocalCache(clientOpt.localCache)
+        : this.defaultClient.localCache,
+    };
+    // Per-call options may switch codecs, so TS can't follow the spread
+    const withOpt = (opt?: AnyCodec<MemolockOpt<T>, T>) =>
+      ({ ...clientOpt, ...opt } as AnyCodec<MemolockOptWithTtl<T>, T>);
+    // Only named clients have a generation, so unnamed ones can't
+    // invalidate each other
+    const generationKey =
+      clientOpt.name !== undefined
+        ? this.getRedisKey(GENERATION_KEY + clientOpt.name)
+        : undefined;
+    const getRedisKeys = async (keyVals: U[]) => {
+      let generation = 0;
+      if (generationKey !== undefined) {
+        // The generation is in Redis, so while Redis fails use the last one
+        // known, as set and delete still go to Redis and may succeed
+        generation = this.circuitBreaker?.isOpen()
+          ? this.generations.get(generationKey)?.known ?? 0
+          : await this.getGeneration(generationKey);
+      }
+      const namespace = this.getClientNamespace(clientOpt.version, generation);
+      return keyVals.map((keyVal) =>
+        this.getRedisKey(clientOpt.getKey(keyVal), namespace),
+      );
+    };
+
     return {
-      get: (keyVal: U, opt?: MemolockOpt<T>) =>
-        this.get(
-          clientOpt.getKey(keyVal),
-          { ...clientOpt, ...opt },
+      get: async (keyVal: U, opt?: AnyCodec<MemolockOpt<T>, T>) =>
+        this.getForClient(
+          client,
+          (await getRedisKeys([keyVal]))[0],
+          withOpt(opt),
           fetch.bind(null, keyVal) as () => T | Promise<T>,
+          0,
         ),
-      delete: (keyVal: U) => this.delete(clientOpt.getKey(keyVal)),
-      set: (keyVal: U, data: T) =>
-        this.set(clientOpt.getKey(keyVal), data, clientOpt),
+      getMany: async (keyVals: U[], opt?: AnyCodec<MemolockOpt<T>, T>) => {
+        const keys = await getRedisKeys(keyVals);
+        const keyValsByKey = new Map(keys.map((key, i) => [key, keyVals[i]]));
+        const toKeyVals = (keys: string[]) =>
+          keys.map((key) => keyValsByKey.get(key) as U);
+
+        return this.getManyForClient(
+          client,
+          keys,
+          withOpt(opt),
+          (keys: string[]) =>
+            clientOpt.fetchMany
+              ? clientOpt.fetchMany(toKeyVals(keys))
+              : Promise.all(toKeyVals(keys).map((keyVal) => fetch(keyVal))),
+        );
+      },
+      delete: async (keyVal: U) =>
+        this.deleteKey((await getRedisKeys([keyVal]))[0]),
+      set: async (keyVal: U, data: T) =>
+        this.setKey((await getRedisKeys([keyVal]))[0], data, clientOpt),
+      invalidateAll: async () => {
+        if (generationKey === undefined) {
+          throw new Error('invalidateAll needs a CacheClient with a name.');
+        }
+        const generation = await this.redisClient.eval(
+          BUMP_GENERATION_SCRIPT,
+          [generationKey],
+          [],
+        );
+        this.setGeneration(generationKey, generation as number);
+      },
     };
   }
 
   async get<T>(
     key: string,
-    opt: MemolockOptWithTtl<T>,
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
     fetch: () => T | Promise<T>,
     attempts = 0,
   ): Promise<T> {
-    const value = opt.forceRefresh ? null : await this.redisClient.get(key);
-    if (value) {
-      return opt.decode ? opt.decode(value) : JSON.parse(value);
+    return this.getForClient(
+      this.defaultClient,
+      this.getRedisKey(key),
+      opt,
+      fetch,
+      attempts,
+    );
+  }
+
+  private getForClient<T>(
+    client: ClientContext,
+    key: string,
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetch: () => T | Promise<T>,
+    attempts: number,
+  ): Promise<T> {
+    const attributes = {
+      'memolock.key': key,
+      'memolock.client': client.name,
+      'memolock.attempt': attempts + 1,
+    };
+
+    return withSpan(this.tracer, 'memolock.get', attributes, async (span) => {
+      const local = opt.forceRefresh ? undefined : client.localCache?.get(key);
+      span?.setAttribute('memolock.hit', local !== undefined);
+      if (local) {
+        this.emit('hit', { key, client: client.name, source: 'local' });
+        return local.value as T;
+      }
+
+      // Retries are part of a get others may share, so they can't join one
+      const shared =
+        attempts === 0 && !opt.forceRefresh && this.inFlight.get(key);
+      if (shared) {
+        return shared as Promise<T>;
+      }
+      const get = this.circuitBreaker?.isOpen()
+        ? this.fetchDirectly(client, [key], async () => [await fetch()]).then(
+            ([value]) => value,
+          )
+        : this.getFromRedis(client, key, opt, fetch, attempts, span);
+      return attempts === 0 ? this.shareGet(key, get) : get;
+    });
+  }
+
+  private async getFromRedis<T>(
+    client: ClientContext,
+    key: string,
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetch: () => T | Promise<T>,
+    attempts: number,
+    span?: MemolockSpan,
+  ): Promise<T> {
+    const [value, pttl] = opt.forceRefresh
+      ? [null, 0]
+      : await this.readValue(key, client.localCache !== undefined, opt.binary);
+    const stored =
+      value && this.useStoredValue(client, key, value, pttl, opt, fetch);
+    span?.setAttribute('memolock.hit', !!stored);
+    if (stored) {
+      return stored.data;
     } else {
-      return this.getLockOrWaitForLock(key, opt, fetch, attempts);
+      this.emit('miss', { key, client: client.name });
+      return this.getLockOrWaitForLock(client, key, opt, fetch, attempts, span);
+    }
+  }
+
+  async getMany<T>(
+    keys: string[],
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetchMany: (keys: string[]) => T[] | Promise<T[]>,
+  ): Promise<T[]> {
+    return this.getManyForClient(
+      this.defaultClient,
+      keys.map((key) => this.getRedisKey(key)),
+      opt,
+      // Fetch with the keys as they were passed in
+      (redisKeys: string[]) =>
+        fetchMany(redisKeys.map((key) => key.slice(this.prefix.length))),
+    );
+  }
+
+  private async getManyForClient<T>(
+    client: ClientContext,
+    keys: string[],
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetchMany: (keys: string[]) => T[] | Promise<T[]>,
+  ): Promise<T[]> {
+    const found = new Map<string, T>();
+    // Retries and background refreshes work one key at a time
+    const fetchOne = (key: string) => async () => (await fetchMany([key]))[0];
+    const pending: Promise<unknown>[] = [];
+    const wait = (get: Promise<unknown>) => {
+      // Handled right away, in case a later step throws before it's awaited
+      get.catch(() => undefined);
+      pending.push(get);
+    };
+    const share = (key: string, get: Promise<T>) =>
+      wait(this.shareGet(key, get).then((value) => found.set(key, value)));
+    let missing = Array.from(new Set(keys));
+
+    if (!opt.forceRefresh) {
+      missing = missing.filter((key) => {
+        const local = client.localCache?.get(key);
+        if (local) {
+          this.emit('hit', { key, client: client.name, source: 'local' });
+          found.set(key, local.value as T);
+        }
+        const shared = !local && this.inFlight.get(key);
+        if (shared) {
+          wait(shared.then((value) => found.set(key, value as T)));
+        }
+        return !local && !shared;
+      });
+    }
+    if (this.circuitBreaker?.isOpen()) {
+      if (missing.length) {
+        const fetched = this.fetchDirectly(client, missing, fetchMany);
+        missing.forEach((key, i) =>
+          share(
+            key,
+            fetched.then((values) => values[i]),
+          ),
+        );
+      }
+      await Promise.all(pending);
+      return keys.map((key) => found.get(key) as T);
+    }
+
+    if (!opt.forceRefresh) {
+      const [values, pttls] = await this.readValues(
+        missing,
+        client.localCache !== undefined,
+        opt.binary,
+      );
+      missing = missing.filter((key, i) => {
+        const value = values[i];
+        const stored =
+          value &&
+          this.useStoredValue(client, key, value, pttls[i], opt, fetchOne(key));
+        if (stored) {
+          found.set(key, stored.data);
+        }
+        return !stored;
+      });
     }
+
+    missing.forEach((key) => this.emit('miss', { key, client: client.name }));
+    const lockTimeout = (opt.lockTimeout ??= DEFAULT_LOCK_TIMEOUT);
+    const { owned, locked } = await this.acquireLocks(missing, lockTimeout);
+    owned.forEach(({ key }) =>
+      this.emit('lockAcquired', { key, client: client.name }),
+    );
+    locked.forEach((key) =>
+      this.emit('lockWait', { key, client: client.name }),
+    );
+
+    locked.forEach((key) =>
+      share(key, this.waitForValue(client, key, opt, fetchOne(key), 0)),
+    );
+    if (owned.length) {
+      const fetched = this.fetchAndStoreMany(client, owned, opt, fetchMany);
+      owned.forEach(({ key }, i) =>
+        share(
+          key,
+          fetched.then((values) => values[i]),
+        ),
+      );
+    }
+    await Promise.all(pending);
+
+    return keys.map((key) => found.get(key) as T);
+  }
+
+  /**
+   * Lets gets of `key` in this process share `get` until it settles,
+   * instead of each reading Redis and waiting on the lock.
+   */
+  private shareGet<T>(key: string, get: Promise<T>): Promise<T> {
+    const forget = () => {
+      if (this.inFlight.get(key) === get) {
+        this.inFlight.delete(key);
+      }
+    };
+    this.inFlight.set(key, get);
+    get.then(forget, forget);
+    return get;
+  }
+
+  // Fetches without Redis, while the circuit breaker is open
+  private fetchDirectly<T>(
+    client: ClientContext,
+    keys: string[],
+    fetchMany: (keys: string[]) => T[] | Promise<T[]>,
+  ): Promise<T[]> {
+    const fetchStart = Date.now();
+    return withSpan(
+      this.tracer,
+      'memolock.fetch',
+      { 'memolock.keys': keys, 'memolock.client': client.name },
+      async () => fetchMany(keys),
+    ).then(
+      (values) => {
+        const durationMs = Date.now() - fetchStart;
+        keys.forEach((key) =>
+          this.emit('fetchSuccess', { key, client: client.name, durationMs }),
+        );
+        return values;
+      },
+      (error) => {
+        const durationMs = Date.now() - fetchStart;
+        keys.forEach((key) =>
+          this.emit('fetchError', {
+            key,
+            client: client.name,
+            durationMs,
+            error,
+          }),
+        );
+        throw error;
+      },
+    );
+  }
+
+  /**
+   * Only asks for the remaining TTL when a local cache needs it. Both
+   * commands are sent together, so this is still a single round trip.
+   */
+  private async readValue(
+    key: string,
+    withTtl: boolean,
+    binary?: boolean,
+  ): Promise<[Payload | null, number]> {
+    const read: Promise<Payload | null> = binary
+      ? this.redisClient.getBuffer(key)
+      : this.redisClient.get(key);
+    if (!withTtl) {
+      return [await read, 0];
+    }
+
+    return Promise.all([read, this.redisClient.pttl(key)]);
+  }
+
+  private async readValues(
+    keys: string[],
+    withTtl: boolean,
+    binary?: boolean,
+  ): Promise<[(Payload | null)[], number[]]> {
+    if (!keys.length) {
+      return [[], []];
+    }
+
+    let read: Promise<(Payload | null)[]>;
+    if (this.redisClient.clustered) {
+      // MGET can't span slots
+      read = Promise.all(
+        keys.map(
+          (key): Promise<Payload | null> =>
+            binary
+              ? this.redisClient.getBuffer(key)
+              : this.redisClient.get(key),
+        ),
+      );
+    } else {
+      read = binary
+        ? this.redisClient.mgetBuffer(keys)
+        : this.redisClient.mget(keys);
+    }
+    return Promise.all([
+      read,
+      withTtl ? Promise.all(keys.map((key) => this.redisClient.pttl(key))) : [],
+    ]);
+  }
+
+  /**
+   * Decodes a value read from Redis, keeps a local copy and, if the value
+   * is stale or due for an early refresh, refreshes it in the background.
+   * Returns null if the value failed validation and should be refetched.
+   */
+  private useStoredValue<T>(
+    client: ClientContext,
+    key: string,
+    value: Payload,
+    pttl: number,
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetch: () => T | Promise<T>,
+  ): { data: T } | null {
+    const { header, payload } = unwrap(value);
+    if (header?.f) {
+      // A failure cached with errorTtlMs
+      throw new RemoteFetchError(header.f.message, header.f.name);
+    }
+
+    const validated = this.validateForClient(
+      client,
+      key,
+      this.decodeForClient(client, key, header, payload, opt),
+      opt,
+    );
+    if (!validated) {
+      // The same compare-and-delete as releasing a lock, so we never delete
+      // a value written since we read this one
+      this.redisClient
+        .eval(RELEASE_LOCK_SCRIPT, [key], [value])
+        .catch((err) => {
+          if (this.errorHandler) {
+            this.errorHandler(err);
+          }
+        });
+      return null;
+    }
+
+    // Only now, so values that fail to decode or validate count as misses
+    this.emit('hit', { key, client: client.name, source: 'redis' });
+    const { data } = validated;
+    client.localCache?.set(
+      key,
+      data,
+      header?.e !== undefined ? header.e - Date.now() : pttl,
+    );
+
+    // Past its fresh TTL but still inside the stale window, or
+    // (randomly) close enough to expiring that we refresh early
+    if (
+      header?.e !== undefined &&
+      (header.e <= Date.now() ||
+        this.shouldRefreshEarly(header.e, header.d, opt.earlyRefreshBeta))
+    ) {
+      this.refreshInBackground(client, key, opt, fetch);
+    }
+
+    return { data };
   }
 
   private async getLockOrWaitForLock<T>(
+    client: ClientContext,
     key: string,
-    opt: MemolockOptWithTtl<T>,
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
     fetch: () => T | Promise<T>,
     attempts: number,
+    span?: MemolockSpan,
   ): Promise<T> {
     const lockTimeout = (opt.lockTimeout ??= DEFAULT_LOCK_TIMEOUT);
 
-    const lockKey = `${key}:lock`;
+    const lockToken = await this.acquireLock(key, lockTimeout);
+    span?.setAttribute('memolock.lock_held', lockToken !== null);
 
-    const keyChannel = `${key}_done`;
-
-    if (await this.isLocked(key, lockKey, opt.lockTimeout)) {
+    if (!lockToken) {
       this.isLockedCache.add(key);
+      this.emit('lockWait', { key, client: client.name });
+      return this.waitForValue(client, key, opt, fetch, attempts);
+    } else {
+      this.emit('lockAcquired', { key, client: client.name });
+      return this.fetchAndStore(client, key, opt, fetch, lockToken);
+    }
+  }
 
-      // Subscribe to event to wait for the value
-      return new Promise<T>((resolve, reject) => {
-        this.redisUtil.subscribeOnce(keyChannel, {
-          timeoutMs: lockTimeout,
-          decode: (message: string) =>
-            opt.decode ? opt.decode(message) : JSON.parse(message),
-          onSuccess: (data: T) => {
-            this.isLockedCache.delete(key);
-            resolve(data);
-          },
-          onError: () => {
-            this.isLockedCache.delete(key);
-
-            if (attempts < (opt.maxAttempts ?? DEFAULT_MAX_ATTEMPTS) - 1) {
-              resolve(this.get(key, opt, fetch, attempts + 1));
-            } else {
-              reject(
-                new Error('Never received message that key was unlocked.'),
-              );
-            }
-          },
-        });
+  private waitForValue<T>(
+    client: ClientContext,
+    key: string,
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetch: () => T | Promise<T>,
+    attempts: number,
+  ): Promise<T> {
+    const waitStart = Date.now();
+    const endWait = () =>
+      this.emit('lockWaitEnd', {
+        key,
+        client: client.name,
+        durationMs: Date.now() - waitStart,
       });
-    } else {
-      // Fetch value, convert to promise as needed.
-      const value = await Promise.resolve()
-        .then(() => fetch())
-        .catch((e) => {
-          // Silent catch isn't ideal, but failure inside of
-          // failure seems worse. We can still recover if
-          // this delete fails.
-          this.redisClient.del(lockKey).catch(() => {
-            if (this.errorHandler) {
-              this.errorHandler(e);
-            }
+
+    // Subscribe to event to wait for the value
+    return new Promise<T>((resolve, reject) => {
+      this.redisUtil.subscribeOnce(this.getChannel(key), {
+        timeoutMs: opt.lockTimeout ?? DEFAULT_LOCK_TIMEOUT,
+        binary: opt.binary,
+        decode: (message: Payload) => {
+          const { header, payload } = unwrap(message);
+          const validated = this.validateForClient(
+            client,
+            key,
+            this.decodeForClient(client, key, header, payload, opt),
+            opt,
+          );
+          if (!validated) {
+            // Retried below like any other failure, as a miss
+            throw new ValidationError(key);
+          }
+          return { data: validated.data, freshUntil: header?.e };
+        },
+        recheck: async () => {
+          // The lock and key share a slot, so one MGET reads both
+          const keys = [this.getLockKey(key), key];
+          const [lock, value] = opt.binary
+            ? await this.redisClient.mgetBuffer(keys)
+            : await this.redisClient.mget(keys);
+          // While the lock is held, any value is the one being refreshed
+          if (lock !== null) {
+            return null;
+          }
+          // Released without caching a value, so nothing will be published
+          return value ?? false;
+        },
+        onSuccess: ({ data, freshUntil }: { data: T; freshUntil?: number }) => {
+          this.isLockedCache.delete(key);
+          endWait();
+          if (!opt.cacheIf || opt.cacheIf(data)) {
+            client.localCache?.set(
+              key,
+              data,
+              freshUntil !== undefined
+                ? freshUntil - Date.now()
+                : this.getTtlMs(data, opt.ttlMs),
+            );
+          }
+          resolve(data);
+        },
+        onError: (timeout, err) => {
+          this.isLockedCache.delete(key);
+          endWait();
+          const fetchFailed = err instanceof RemoteFetchError;
+          if (timeout) {
+            this.emit('waitTimeout', {
+              key,
+              client: client.name,
+              attempt: attempts + 1,
+            });
+          }
+
+          if (fetchFailed && opt.propagateFetchErrors) {
+            reject(err);
+            return;
+          } else if (attempts < (opt.maxAttempts ?? DEFAULT_MAX_ATTEMPTS) - 1) {
+            this.emit('retry', {
+              key,
+              client: client.name,
+              attempt: attempts + 2,
+            });
+            resolve(this.getForClient(client, key, opt, fetch, attempts + 1));
+            return;
+          }
+
+          this.emit('maxAttemptsExceeded', {
+            key,
+            client: client.name,
+            attempts: attempts + 1,
           });
+          if (fetchFailed || err instanceof ValidationError) {
+            reject(err);
+          } else {
+            reject(new Error('Never received message that key was unlocked.'));
+          }
+        },
+      });
+    });
+  }
+
+  /**
+   * Stale values are still served while a single process (whoever gets
+   * the lock) refreshes them. Everyone else carries on with the stale value.
+   */
+  private refreshInBackground<T>(
+    client: ClientContext,
+    key: string,
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetch: () => T | Promise<T>,
+  ) {
+    if (this.isLockedCache.has(key)) {
+      return;
+    }
+
+    this.acquireLock(key, opt.lockTimeout ?? DEFAULT_LOCK_TIMEOUT)
+      .then((lockToken) => {
+        if (lockToken) {
+          this.emit('lockAcquired', { key, client: client.name });
+          // Don't replace a value we can still serve with an error
+          const refreshOpt = { ...opt, errorTtlMs: undefined };
+          return this.fetchAndStore(client, key, refreshOpt, fetch, lockToken);
+        }
+        this.isLockedCache.delete(key);
+      })
+      .catch((err) => {
+        this.isLockedCache.delete(key);
+        if (this.errorHandler) {
+          this.errorHandler(err);
+        }
+      });
+  }
+
+  private async fetchAndStore<T>(
+    client: ClientContext,
+    key: string,
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetch: () => T | Promise<T>,
+    lockToken: string,
+  ): Promise<T> {
+    const [value] = await this.fetchAndStoreMany(
+      client,
+      [{ key, token: lockToken }],
+      opt,
+      async () => [await fetch()],
+    );
+    return value;
+  }
+
+  /**
+   * Fetches every key we hold the lock for with a single call, then caches,
+   * publishes and unlocks them all in one multi.
+   */
+  private async fetchAndStoreMany<T>(
+    client: ClientContext,
+    owned: OwnedLock[],
+    opt: AnyCodec<MemolockOptWithTtl<T>, T>,
+    fetchMany: (keys: string[]) => T[] | Promise<T[]>,
+  ): Promise<T[]> {
+    const lockTimeout = opt.lockTimeout ?? DEFAULT_LOCK_TIMEOUT;
+
+    const stopRenewals = opt.renewLock
+      ? owned.map(({ key, token }) =>
+          this.startLockRenewal(
+            this.getLockKey(key),
+            token,
+            this.getChannel(key),
+            lockTimeout,
+          ),
+        )
+      : [];
+    const stopRenewal = () => stopRenewals.forEach((stop) => stop());
+
+    const fetchStart = Date.now();
+
+    // Fetch values, convert to promise as needed.
+    const keys = owned.map(({ key }) => key);
+    const values = await withSpan(
+      this.tracer,
+      'memolock.fetch',
+      { 'memolock.keys': keys, 'memolock.client': client.name },
+      async () => fetchMany(keys),
+    )
+      .then((values) => {
+        stopRenewal();
+        if (values.length !== owned.length) {
+          throw new Error(
+            `Expected ${owned.length} values from fetch but got ${values.length}.`,
+          );
+        }
+        return values;
+      })
+      .catch((e) => {
+        stopRenewal();
+        const durationMs = Date.now() - fetchStart;
+        owned.forEach(({ key }) =>
+          this.emit('fetchError', {
+            key,
+            client: client.name,
+            durationMs,
+            error: e,
+          }),
+        );
+        const failure = fetchFailure(e);
+        const cacheError =
+          opt.errorTtlMs && (!opt.cacheErrorIf || opt.cacheErrorIf(e));
+        const pipeline = this.createPipeline();
+        owned.forEach(({ key, token }) => {
+          if (cacheError) {
+            // Set before publishing so retrying waiters read the failure
+            pipeline.add(key, {
+              name: 'set',
+              key,
+              value: failure,
+              px: opt.errorTtlMs as number,
+            });
+          }
+          pipeline.add(
+            this.getLockKey(key),
+            this.releaseLockCommand(token, key),
+          );
+          // Let waiters know right away instead of timing out
+          pipeline.add(key, this.publishCommand(key, failure));
           this.isLockedCache.delete(key);
-          // Still throw error so user can handle it
-          throw e;
         });
+        // Silent catch isn't ideal, but failure inside of
+        // failure seems worse. We can still recover if
+        // this delete fails.
+        pipeline.exec().catch(() => {
+          if (this.errorHandler) {
+            this.errorHandler(e);
+          }
+        });
+        // Still throw error so user can handle it
+        throw e;
+      });
 
-      const encodedValue = this.getEncodedData(value, opt.encode);
-      const shouldCache = opt.cacheIf ? opt.cacheIf(value) : true;
+    const fetchDurationMs = Date.now() - fetchStart;
+    owned.forEach(({ key }) =>
+      this.emit('fetchSuccess', {
+        key,
+        client: client.name,
+        durationMs: fetchDurationMs,
+      }),
+    );
+    const pipeline = this.createPipeline();
 
-      if (shouldCache) {
-        const ttlMs = await this.getTtlMs(value, opt.ttlMs);
+    owned.forEach(({ key, token }, i) => {
+      const value = values[i];
+      if (!opt.cacheIf || opt.cacheIf(value)) {
+        const { storedValue, pxMs, ttlMs } = this.getStoredValue(
+          value,
+          opt,
+          opt.earlyRefreshBeta ? fetchDurationMs : undefined,
+        );
+        client.localCache?.set(key, value, ttlMs);
 
-        await this.redisClient
-          .pipeline()
+        pipeline.add(
+          key,
           // Set value in cache
-          .set(key, encodedValue, 'PX', ttlMs)
+          { name: 'set', key, value: storedValue, px: pxMs },
           // Publish value
-          .publish(keyChannel, encodedValue)
-          // Release lock
-          .del(lockKey)
-          .exec();
+          this.publishCommand(key, storedValue),
+        );
+        this.getTags(value, opt.tags).forEach((tag) => {
+          const tagKey = this.getTagKey(tag);
+          pipeline.add(tagKey, {
+            name: 'eval',
+            script: TAG_KEY_SCRIPT,
+            keys: [tagKey],
+            args: [key, pxMs],
+          });
+        });
       } else {
-        await this.redisClient
-          .pipeline()
-          .publish(keyChannel, encodedValue)
-          .del(lockKey)
-          .exec();
+        pipeline.add(
+          key,
+          this.publishCommand(key, this.getPayload(value, opt, {})),
+        );
       }
 
-      this.isLockedCache.delete(key);
+      // Release lock
+      pipeline.add(this.getLockKey(key), this.releaseLockCommand(token, key));
+    });
 
-      return value;
-    }
+    await pipeline.exec();
+
+    owned.forEach(({ key }) => this.isLockedCache.delete(key));
+
+    return values;
   }
 
-  async set<T>(key: string, data: T, opt: MemlockSetOpt<T>) {
-    const ttlMs = await this.getTtlMs(data, opt.ttlMs);
+  async set<T>(key: string, data: T, opt: AnyCodec<MemlockSetOpt<T>, T>) {
+    return this.setKey(this.getRedisKey(key), data, opt);
+  }
 
-    return this.redisClient.set(
-      key,
-      this.getEncodedData(data, opt.encode),
-      'PX',
-      ttlMs,
-    );
+  private async setKey<T>(
+    key: string,
+    data: T,
+    opt: AnyCodec<MemlockSetOpt<T>, T>,
+  ) {
+    const attributes = { 'memolock.key': key };
+    return withSpan(this.tracer, 'memolock.set', attributes, async () => {
+      const { storedValue, pxMs } = this.getStoredValue(data, opt);
+
+      const [result] = await Promise.all([
+        this.redisClient.set(key, storedValue, { px: pxMs }),
+        this.redisClient.publish(this.getInvalidationChannel(), key),
+        Promise.all(
+          this.getTags(data, opt.tags).map((tag) =>
+            this.redisClient.eval(
+              TAG_KEY_SCRIPT,
+              [this.getTagKey(tag)],
+              [key, pxMs],
+            ),
+          ),
+        ),
+      ]);
+      this.evictLocally(key);
+      return result;
+    });
   }
 
   async delete(key: string) {
-    return this.redisClient.del(key);
+    return this.deleteKey(this.getRedisKey(key));
   }
 
-  private getEncodedData<T>(data: T, encodeFn?: (data: T) => string) {
-    if (encodeFn) {
-      return encodeFn(data);
+  private async deleteKey(key: string) {
+    const attributes = { 'memolock.key': key };
+    return withSpan(this.tracer, 'memolock.delete', attributes, async () => {
+      const [deleted] = await Promise.all([
+        this.redisClient.del(key),
+        this.redisClient.publish(this.getInvalidationChannel(), key),
+      ]);
+      this.evictLocally(key);
+      return deleted;
+    });
+  }
+
+  /**
+   * Atomically deletes every key cached with any of `tags`. Resolves to the
+   * number of keys deleted.
+   */
+  async invalidateTags(tags: string[]): Promise<number> {
+    if (!tags.length) {
+      return 0;
+    }
+
+    const tagKeys = tags.map((tag) => this.getTagKey(tag));
+    const [deleted, keys] = this.redisClient.clustered
+      ? await this.invalidateTagKeysInCluster(tagKeys)
+      : ((await this.redisClient.eval(INVALIDATE_TAGS_SCRIPT, tagKeys, [])) as [
+          number,
+          string[],
+        ]);
+
+    const uniqueKeys = new Set(keys);
+    await Promise.all(
+      Array.from(uniqueKeys).map((key) => {
+        this.evictLocally(key);
+        return this.redisClient.publish(this.getInvalidationChannel(), key);
+      }),
+    );
+
+    return deleted;
+  }
+
+  /**
+   * The script can't touch keys in other slots, so on a Cluster tagged keys
+   * are deleted one by one instead of atomically.
+   */
+  private async invalidateTagKeysInCluster(
+    tagKeys: string[],
+  ): Promise<[number, string[]]> {
+    const members = await Promise.all(
+      tagKeys.map((tagKey) => this.redisClient.smembers(tagKey)),
+    );
+    const keys = members.reduce((all, tagged) => all.concat(tagged), []);
+    const deleted = await Promise.all(
+      Array.from(new Set(keys)).map((key) => this.redisClient.del(key)),
+    );
+    await Promise.all(tagKeys.map((tagKey) => this.redisClient.del(tagKey)));
+    return [deleted.reduce((sum, count) => sum + count, 0), keys];
+  }
+
+  /**
+   * Calls `listener` with the key whenever any process deletes or sets a
+   * key. The key is without the prefix, but keeps a CacheClient's version
+   * and generation, e.g. `v2:g1:article:1`, as those can't be told apart
+   * from the key itself. Returns a function that removes the listener.
+   */
+  onInvalidate(listener: (key: string) => void): () => void {
+    this.subscribeToInvalidations();
+    this.invalidationListeners.add(listener);
+    return () => {
+      this.invalidationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Calls `listener` whenever `event` happens, e.g. for metrics. Returns a
+   * function that removes the listener.
+   */
+  on<E extends keyof MemolockEvents>(
+    event: E,
+    listener: EventListener<E>,
+  ): () => void {
+    const listeners = (this.eventListeners[event] ??= new Set()) as Set<
+      EventListener<E>
+    >;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Renders the metrics collected with the `metrics` option in the
+   * Prometheus text exposition format. Empty without the option.
+   */
+  metrics(): string {
+    return this.metricsCollector?.render() ?? '';
+  }
+
+  private emit<E extends keyof MemolockEvents>(
+    event: E,
+    payload: MemolockEvents[E],
+  ) {
+    const listeners = this.eventListeners[event] as
+      | Set<EventListener<E>>
+      | undefined;
+    listeners?.forEach((listener) => {
+      // A listener that throws shouldn't break the get
+      try {
+        listener(payload);
+      } catch (err) {
+        if (this.errorHandler) {
+          this.errorHandler(err as Error);
+        }
+      }
+    });
+  }
+
+  private subscribeToInvalidations() {
+    if (this.isSubscribedToInvalidations) {
+      return;
+    }
+
+    this.isSubscribedToInvalidations = true;
+    this.redisUtil.subscribe(this.getInvalidationChannel(), (key) => {
+      this.evictLocally(key);
+      this.invalidationListeners.forEach((listener) =>
+        listener(key.slice(this.prefix.length)),
+      );
+    });
+  }
+
+  private toAdapter(
+    client: RedisClient | IORedisClient | RedisAdapter,
+  ): RedisAdapter {
+    return isRedisAdapter(client) ? client : createIORedisAdapter(client);
+  }
+
+  private createLocalCache(opt: LocalCacheOpt) {
+    this.subscribeToInvalidations();
+    const localCache = new LocalCache(opt);
+    this.localCaches.add(localCache);
+    return localCache;
+  }
+
+  private evictLocally(key: string) {
+    this.localCaches.forEach((localCache) => localCache.delete(key));
+  }
+
+  private getEncodedData<T>(data: T, opt: Codec<T>): Payload {
+    if (opt.encode) {
+      return opt.encode(data);
     }
 
     const str = JSON.stringify(data) as string | undefined;
     return str?.length ? str : 'null';
   }
 
-  private async isLocked(
+  private decodeForClient<T>(
+    client: ClientContext,
+    key: string,
+    header: EnvelopeHeader | null,
+    payload: Payload,
+    opt: Codec<T>,
+  ): T {
+    try {
+      return this.getDecodedData(
+        header?.z ? decompress(payload, header.z) : payload,
+        opt,
+      );
+    } catch (error) {
+      this.emit('decodeError', { key, client: client.name, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Runs the validate option, reporting values that fail it. Callers treat
+   * those as misses.
+   */
+  private validateForClient<T>(
+    client: ClientContext,
+    key: string,
+    data: T,
+    opt: MemolockOpt<T> | WithBinaryCodec<MemolockOpt<T>, T>,
+  ): { data: T } | null {
+    if (!opt.validate) {
+      return { data };
+    }
+
+    const result = validate(opt.validate, data);
+    if (result.valid) {
+      return { data: result.data };
+    }
+
+    const error = new ValidationError(key, result.reason);
+    this.emit('validationError', { key, client: client.name, error });
+    if (this.errorHandler) {
+      this.errorHandler(error);
+    }
+    return null;
+  }
+
+  private getDecodedData<T>(payload: Payload, opt: Codec<T>): T {
+    if (opt.binary) {
+      return opt.decode(payload as Buffer);
+    }
+
+    return opt.decode
+      ? opt.decode(payload as string)
+      : JSON.parse(payload as string);
+  }
+
+  /**
+   * With staleTtlMs, the value is kept for the stale window past its TTL and
+   * records when it stops being fresh, so every process agrees on it.
+   */
+  private getStoredValue<T>(
+    data: T,
+    opt: AnyCodec<MemlockSetOpt<T>, T>,
+    fetchDurationMs?: number,
+  ) {
+    const ttlMs = this.getTtlMs(data, opt.ttlMs);
+    const pxMs = ttlMs + (opt.staleTtlMs ?? 0);
+
+    const header: EnvelopeHeader = {};
+    if (opt.staleTtlMs || fetchDurationMs !== undefined) {
+      header.e = Date.now() + ttlMs;
+    }
+    if (fetchDurationMs !== undefined) {
+      header.d = fetchDurationMs;
+    }
+
+    return { storedValue: this.getPayload(data, opt, header), pxMs, ttlMs };
+  }
+
+  /**
+   * Encodes and, if large enough, compresses the data. Values that need no
+   * header are stored raw, as they always were.
+   */
+  private getPayload<T>(
+    data: T,
+    opt: AnyCodec<MemlockSetOpt<T>, T>,
+    header: EnvelopeHeader,
+  ) {
+    const encodedValue = this.getEncodedData(data, opt);
+    const compressed =
+      opt.compress &&
+      compress(encodedValue, opt.compress === true ? {} : opt.compress);
+    if (compressed) {
+      header.z = compressed.algorithm;
+    }
+
+    const payload = compressed ? compressed.payload : encodedValue;
+    return Object.keys(header).length ? wrap(header, payload) : payload;
+  }
+
+  /**
+   * Probabilistic early expiration (XFetch). The closer a value is to
+   * expiring, and the longer it took to fetch, the more likely a read is
+   * to refresh it early, so hot keys rarely expire with everyone waiting.
+   */
+  private shouldRefreshEarly(
+    freshUntil: number,
+    fetchDurationMs?: number,
+    beta?: number,
+  ) {
+    if (!beta || fetchDurationMs === undefined) {
+      return false;
+    }
+
+    return (
+      Date.now() - fetchDurationMs * beta * Math.log(Math.random()) >=
+      freshUntil
+    );
+  }
+
+  private getTags<T>(data: T, tags?: string[] | ((data: T) => string[])) {
+    if (typeof tags === 'function') {
+      return tags(data);
+    }
+    return tags ?? [];
+  }
+
+  private getTagKey(tag: string) {
+    return this.getRedisKey(`memolock:tag:${tag}`);
+  }
+
+  private getInvalidationChannel() {
+    return this.getRedisKey(INVALIDATION_CHANNEL);
+  }
+
+  private getRedisKey(key: string, namespace = '') {
+    return `${this.prefix}${namespace}${key}`;
+  }
+
+  /**
+   * Changing a CacheClient's version or generation moves all of its keys,
+   * leaving the old ones unreachable until they expire. Neither is in the
+   * key until it's used, so existing keys stay where they are.
+   */
+  private getClientNamespace(
+    version: string | number | undefined,
+    generation: number,
+  ) {
+    return (
+      (version !== undefined ? `v${version}:` : '') +
+      (generation ? `g${generation}:` : '')
+    );
+  }
+
+  /**
+   * Follows the bumps published by invalidateAll, reading the generation
+   * only once subscribed so a bump in between isn't missed. Pub/sub may
+   * still lose one, so it's read again every GENERATION_TTL_MS.
+   */
+  private getGeneration(generationKey: string): Promise<number> {
+    const cached = this.generations.get(generationKey);
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.generation;
+    }
+
+    const entry: Generation = {
+      generation: this.subscribeToGeneration(generationKey)
+        .then(() => this.redisClient.get(generationKey))
+        .then(Number)
+        .then(
+          (generation) => {
+            // A bump published meanwhile is newer
+            if (this.generations.get(generationKey) === entry) {
+              entry.known = generation;
+            }
+            return generation;
+          },
+          (err) => {
+            // Read it again next time
+            entry.expiresAt = 0;
+            throw err;
+          },
+        ),
+      known: cached?.known,
+      expiresAt: Date.now() + GENERATION_TTL_MS,
+    };
+    this.generations.set(generationKey, entry);
+    return entry.generation;
+  }
+
+  private subscribeToGeneration(generationKey: string): Promise<void> {
+    let subscribed = this.generationSubscriptions.get(generationKey);
+    if (!subscribed) {
+      subscribed = this.redisUtil.subscribe(generationKey, (message) =>
+        this.setGeneration(generationKey, Number(message)),
+      );
+      this.generationSubscriptions.set(generationKey, subscribed);
+    }
+    return subscribed;
+  }
+
+  private setGeneration(generationKey: string, generation: number) {
+    // Concurrent bumps may arrive out of order, but only ever go up
+    const known = Math.max(
+      generation,
+      this.generations.get(generationKey)?.known ?? 0,
+    );
+    this.generations.set(generationKey, {
+      generation: Promise.resolve(known),
+      known,
+      expiresAt: Date.now() + GENERATION_TTL_MS,
+    });
+  }
+
+  private getLockKey(key: string) {
+    return getLockKey(key, this.redisClient.clustered);
+  }
+
+  private getChannel(key: string) {
+    return getChannel(key, this.sharded);
+  }
+
+  // Tells waiters on `key` that its value is ready
+  private publishCommand(key: string, message: Payload): RedisCommand {
+    return {
+      name: this.sharded ? 'spublish' : 'publish',
+      channel: this.getChannel(key),
+      message,
+    };
+  }
+
+  /**
+   * Returns a unique token if this call acquired the lock, or null if
+   * the key is already locked (locally or by another process).
+   */
+  private async acquireLock(
     key: string,
-    lockKey: string,
     lockTimeout: number,
-  ): Promise<boolean> {
+  ): Promise<string | null> {
     if (this.isLockedCache.has(key)) {
-      return true;
+      return null;
     } else {
       this.isLockedCache.add(key);
-      const wasLocked =
-        (await this.redisClient.set(
-          lockKey,
-          'locked',
-          'PX',
-          lockTimeout,
-          'NX',
-        )) !== 'OK';
+      const token = this.createLockToken();
+      const acquired =
+        (await this.redisClient.set(this.getLockKey(key), token, {
+          px: lockTimeout,
+          nx: true,
+        })) === 'OK';
 
-      return wasLocked;
+      return acquired ? token : null;
     }
   }
 
-  private async getTtlMs<T>(
-    data: T,
-    ttlMs: number | ((data: T) => number),
-  ): Promise<number> {
+  /**
+   * Batch version of acquireLock, trying every lock in one round trip.
+   */
+  private async acquireLocks(
+    keys: string[],
+    lockTimeout: number,
+  ): Promise<{ owned: OwnedLock[]; locked: string[] }> {
+    const owned: OwnedLock[] = [];
+    const locked = keys.filter((key) => this.isLockedCache.has(key));
+    const toLock = keys.filter((key) => !this.isLockedCache.has(key));
+    if (!toLock.length) {
+      return { owned, locked };
+    }
+
+    toLock.forEach((key) => this.isLockedCache.add(key));
+    const tokens = toLock.map(() => this.createLockToken());
+    const pipeline = this.createPipeline();
+    toLock.forEach((key, i) => {
+      const lockKey = this.getLockKey(key);
+      pipeline.add(lockKey, {
+        name: 'set',
+        key: lockKey,
+        value: tokens[i],
+        px: lockTimeout,
+        nx: true,
+      });
+    });
+
+    const results = await pipeline.exec().catch((err) => {
+      toLock.forEach((key) => this.isLockedCache.delete(key));
+      throw err;
+    });
+    results.forEach((result, i) => {
+      if (result === 'OK') {
+        owned.push({ key: toLock[i], token: tokens[i] });
+      } else {
+        locked.push(toLock[i]);
+      }
+    });
+
+    return { owned, locked };
+  }
+
+  private createPipeline() {
+    return new SlotPipeline(this.redisClient);
+  }
+
+  private releaseLockCommand(token: string, key: string): RedisCommand {
+    return {
+      name: 'eval',
+      script: RELEASE_LOCK_SCRIPT,
+      keys: [this.getLockKey(key)],
+      args: [token],
+    };
+  }
+
+  private createLockToken() {
+    return randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Periodically extends the lock while a fetch is running. Returns a
+   * function that stops the renewal.
+   */
+  private startLockRenewal(
+    lockKey: string,
+    token: string,
+    keyChannel: string,
+    lockTimeout: number,
+  ): () => void {
+    const publish = this.sharded ? 'spublish' : 'publish';
+    const interval = setInterval(() => {
+      this.redisClient
+        .eval(
+          RENEW_LOCK_SCRIPT,
+          [lockKey],
+          [token, lockTimeout, keyChannel, heartbeat(lockTimeout), publish],
+        )
+        .then((renewed) => {
+          // Someone else owns the lock now, nothing left to renew
+          if (!renewed) {
+            clearInterval(interval);
+          }
+        })
+        .catch((err) => {
+          clearInterval(interval);
+          if (this.errorHandler) {
+            this.errorHandler(err);
+          }
+        });
+    }, Math.max(1, Math.floor(lockTimeout / LOCK_RENEWAL_DIVISOR)));
+
+    return () => clearInterval(interval);
+  }
+
+  private getTtlMs<T>(data: T, ttlMs: number | ((data: T) => number)): number {
     if (typeof ttlMs === 'function') {
       return ttlMs(data);
     } else {
@@ -0,0 +1,153 @@
+import Redis from 'ioredis';
+
+import type {
+  EvalArg,
+  Ok,
+  RedisAdapter,
+  RedisCommand,
+  SetOpt,
+} from './adapter';
+import type { Payload } from './envelope';
+
+export type RedisClient = Redis.Redis | Redis.Cluster;
+
+// The parts of an ioredis v4 or v5 client or Cluster that the adapter uses
+export interface IORedisClient {
+  readonly isCluster?: boolean;
+  // A v5 Cluster's may have shardedSubscribers
+  readonly options?: object;
+  get(key: string): Promise<string | null>;
+  getBuffer(key: string): Promise<Buffer | null>;
+  mget(...keys: string[]): Promise<(string | null)[]>;
+  mgetBuffer(...keys: string[]): Promise<(Buffer | null)[]>;
+  pttl(key: string): Promise<number>;
+  set(key: string, value: Payload, px: 'PX', ms: number): Promise<unknown>;
+  set(
+    key: string,
+    value: Payload,
+    px: 'PX',
+    ms: number,
+    nx: 'NX',
+  ): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  publish(channel: string, message: Payload): Promise<number>;
+  eval(script: string, numKeys: number, ...args: EvalArg[]): Promise<unknown>;
+  multi(): IORedisMulti;
+  subscribe(...channels: string[]): Promise<unknown>;
+  unsubscribe(...channels: string[]): Promise<unknown>;
+  psubscribe(...patterns: string[]): Promise<unknown>;
+  // Only in v5
+  spublish?(channel: string, message: Payload): Promise<unknown>;
+  ssubscribe?(...channels: string[]): Promise<unknown>;
+  sunsubscribe?(...channels: string[]): Promise<unknown>;
+  on(
+    event: 'messageBuffer' | 'smessageBuffer',
+    listener: (channel: Buffer, message: Buffer) => void,
+  ): unknown;
+  on(
+    event: 'pmessageBuffer',
+    listener: (pattern: Buffer, channel: Buffer, message: Buffer) => void,
+  ): unknown;
+  quit(): Promise<unknown>;
+}
+
+interface IORedisMulti {
+  set(key: string, value: Payload, px: 'PX', ms: number): unknown;
+  set(key: string, value: Payload, px: 'PX', ms: number, nx: 'NX'): unknown;
+  publish(channel: string, message: Payload): unknown;
+  spublish(channel: string, message: Payload): unknown;
+  eval(script: string, numKeys: number, ...args: EvalArg[]): unknown;
+  exec(): Promise<[Error | null, unknown][] | null>;
+}
+
+function set(
+  redis: IORedisClient | IORedisMulti,
+  key: string,
+  value: Payload,
+  { px, nx }: SetOpt,
+) {
+  return nx
+    ? redis.set(key, value, 'PX', px, 'NX')
+    : redis.set(key, value, 'PX', px);
+}
+
+/**
+ * Adapts an ioredis v4 or v5 client or Cluster. Clients passed to the
+ * MemolockCache constructor are adapted automatically.
+ */
+export function createIORedisAdapter(
+  client: RedisClient | IORedisClient,
+): RedisAdapter {
+  // v4's types miss the Buffer variants of commands, though it has them
+  const redis = client as unknown as IORedisClient;
+  const { spublish, ssubscribe, sunsubscribe } = redis;
+  // A Cluster only sends SSUBSCRIBE to the channel's shard, and passes on
+  // its messages, with shardedSubscribers (v5.9 and up)
+  const canSsubscribe =
+    !redis.isCluster ||
+    (redis.options as { shardedSubscribers?: boolean }).shardedSubscribers ===
+      true;
+
+  return {
+    clustered: redis.isCluster === true,
+    get: (key) => redis.get(key),
+    getBuffer: (key) => redis.getBuffer(key),
+    mget: (keys) => redis.mget(...keys),
+    mgetBuffer: (keys) => redis.mgetBuffer(...keys),
+    pttl: (key) => redis.pttl(key),
+    set: (key, value, opt) => set(redis, key, value, opt) as Promise<Ok | null>,
+    del: (key) => redis.del(key),
+    smembers: (key) => redis.smembers(key),
+    publish: (channel, message) => redis.publish(channel, message),
+    eval: (script, keys, args) =>
+      redis.eval(script, keys.length, ...keys, ...args),
+    multi: async (commands: RedisCommand[]) => {
+      const multi = redis.multi();
+      commands.forEach((command) => {
+        if (command.name === 'set') {
+          set(multi, command.key, command.value, command);
+        } else if (command.name === 'publish') {
+          multi.publish(command.channel, command.message);
+        } else if (command.name === 'spublish') {
+          multi.spublish(command.channel, command.message);
+        } else {
+          const { script, keys, args } = command;
+          multi.eval(script, keys.length, ...keys, ...args);
+        }
+      });
+      // Only null when a WATCH fails, which memolock never uses
+      const results = (await multi.exec()) as [Error | null, unknown][];
+      return results.map(([err, reply]) => err ?? reply);
+    },
+    subscribe: (channel) => redis.subscribe(channel),
+    unsubscribe: (channel) => redis.unsubscribe(channel),
+    psubscribe: (pattern) => redis.psubscribe(pattern),
+    spublish:
+      spublish &&
+      ((channel, message) =>
+        spublish.call(redis, channel, message) as Promise<number>),
+    ssubscribe:
+      ssubscribe && canSsubscribe
+        ? (channel) => ssubscribe.call(redis, channel)
+        : undefined,
+    sunsubscribe:
+      sunsubscribe && canSsubscribe
+        ? (channel) => sunsubscribe.call(redis, channel)
+        : undefined,
+    onMessage: (listener) => {
+      const onMessage = (channel: Buffer, message: Buffer) =>
+        listener(channel.toString(), message);
+      redis.on('messageBuffer', onMessage);
+      redis.on('smessageBuffer', onMessage);
+      redis.on(
+        'pmessageBuffer',
+        (pattern: Buffer, channel: Buffer, message: Buffer) =>
+          listener(channel.toString(), message),
+      );
+    },
+    quit: () => redis.quit(),
+  };
+}
+
+export default createIORedisAdapter;
@@ -0,0 +1,17 @@
+import { withSameSlot } from './cluster';
+
+// Hash tagged on a Cluster so it can share a multi with the key
+export function getLockKey(key: string, clustered: boolean): string {
+  return clustered ? withSameSlot(key, ':lock') : `${key}:lock`;
+}
+
+// Where a key's value is published once it's fetched. Hash tagged for
+// sharded pub/sub, since SPUBLISH shares a multi with the key.
+export function getChannel(key: string, sharded = false): string {
+  return sharded ? withSameSlot(key, '_done') : `${key}_done`;
+}
+
+// Matches the channel of every key with `prefix`, escaped for PSUBSCRIBE
+export function getChannelPattern(prefix: string): string {
+  return getChannel(`${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`);
+}
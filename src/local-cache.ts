@@ -0,0 +1,54 @@
+export type LocalCacheOpt = {
+  maxSize: number;
+  ttlMs: number;
+};
+
+/**
+ * Bounded in-process LRU that sits in front of Redis. Holds decoded values,
+ * so a hit skips both the round trip and decode.
+ */
+export class LocalCache {
+  // Map iterates in insertion order, so the first entry is the least
+  // recently used one.
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private readonly opt: LocalCacheOpt) {}
+
+  get(key: string): { value: unknown } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return { value: entry.value };
+  }
+
+  /**
+   * Never keeps a value longer than our own ttlMs or `maxTtlMs`, which
+   * should be however long the value has left in Redis.
+   */
+  set(key: string, value: unknown, maxTtlMs: number) {
+    const ttlMs = Math.min(this.opt.ttlMs, maxTtlMs);
+    this.entries.delete(key);
+    if (ttlMs <= 0) {
+      return;
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    if (this.entries.size > this.opt.maxSize) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+export default LocalCache;
@@ -0,0 +1,368 @@
+import type {
+  EvalArg,
+  Ok,
+  RedisAdapter,
+  RedisCommand,
+  SetOpt,
+} from './adapter';
+import type { Payload } from './envelope';
+import { getChannel, getLockKey } from './keys';
+import {
+  BUMP_GENERATION_SCRIPT,
+  INVALIDATE_TAGS_SCRIPT,
+  RELEASE_LOCK_SCRIPT,
+  RENEW_LOCK_SCRIPT,
+  TAG_KEY_SCRIPT,
+} from './scripts';
+
+export type MemoryRedisOpt = {
+  // The clock keys expire by, which advanceTime moves forward
+  now?: () => number;
+};
+
+type Entry = { value: Buffer | Set<string>; expiresAt?: number };
+
+interface Subscriber {
+  channels: Set<string>;
+  // PSUBSCRIBE patterns, and what they match
+  patterns: Map<string, RegExp>;
+  listeners: ((channel: string, message: Buffer) => void)[];
+}
+
+function wrongType() {
+  return new Error(
+    'WRONGTYPE Operation against a key holding the wrong kind of value',
+  );
+}
+
+// PSUBSCRIBE's glob-style patterns, with `*`, `?` and `\` escapes
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/\\?[\s\S]/g, (token) =>
+    token === '*'
+      ? '[\\s\\S]*'
+      : token === '?'
+      ? '[\\s\\S]'
+      : token.slice(-1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+  );
+  return new RegExp(`^${source}$`);
+}
+
+// The data and subscriptions every client of a MemoryRedis shares
+class Store {
+  offsetMs = 0;
+  readonly subscribers = new Set<Subscriber>();
+  // How many of the next messages on each channel to lose
+  readonly drops = new Map<string, number>();
+  private entries = new Map<string, Entry>();
+
+  constructor(private readonly now: () => number) {}
+
+  time() {
+    return this.now() + this.offsetMs;
+  }
+
+  write(key: string, value: Payload, expiresAt?: number) {
+    this.entries.set(key, { value: Buffer.from(value), expiresAt });
+  }
+
+  get(key: string): Buffer | null {
+    const value = this.read(key)?.value;
+    if (value instanceof Set) {
+      throw wrongType();
+    }
+    // Copied, so callers can't change what's stored
+    return value ? Buffer.from(value) : null;
+  }
+
+  // Like MGET, reads keys that aren't strings as missing
+  mget(keys: string[]): (Buffer | null)[] {
+    return keys.map((key) => {
+      const value = this.read(key)?.value;
+      return value instanceof Buffer ? Buffer.from(value) : null;
+    });
+  }
+
+  set(key: string, value: Payload, { px, nx }: SetOpt): Ok | null {
+    if (nx && this.read(key)) {
+      return null;
+    }
+    this.write(key, value, this.time() + px);
+    return 'OK';
+  }
+
+  del(key: string): number {
+    const deleted = this.read(key) ? 1 : 0;
+    this.entries.delete(key);
+    return deleted;
+  }
+
+  pttl(key: string): number {
+    const entry = this.read(key);
+    if (!entry) {
+      return -2;
+    }
+    return entry.expiresAt === undefined ? -1 : entry.expiresAt - this.time();
+  }
+
+  // memolock's scripts only expire keys that exist
+  pexpire(key: string, ms: number) {
+    const entry = this.entries.get(key) as Entry;
+    entry.expiresAt = this.time() + ms;
+  }
+
+  incr(key: string): number {
+    const value = Number(this.get(key)?.toString() ?? 0) + 1;
+    if (!Number.isSafeInteger(value)) {
+      throw new Error('ERR value is not an integer or out of range');
+    }
+    // INCR keeps the key's expiry
+    this.write(key, String(value), this.read(key)?.expiresAt);
+    return value;
+  }
+
+  sadd(key: string, member: string) {
+    const entry = this.read(key);
+    const members = entry?.value ?? new Set<string>();
+    if (members instanceof Buffer) {
+      throw wrongType();
+    }
+    members.add(member);
+    this.entries.set(key, { value: members, expiresAt: entry?.expiresAt });
+  }
+
+  smembers(key: string): string[] {
+    const members = this.read(key)?.value;
+    if (members instanceof Buffer) {
+      throw wrongType();
+    }
+    return [...(members ?? [])];
+  }
+
+  publish(channel: string, message: Payload): number {
+    // Like Redis, once for the channel and once per matching pattern
+    const receivers: Subscriber[] = [];
+    this.subscribers.forEach((subscriber) => {
+      if (subscriber.channels.has(channel)) {
+        receivers.push(subscriber);
+      }
+      subscriber.patterns.forEach((regExp) => {
+        if (regExp.test(channel)) {
+          receivers.push(subscriber);
+        }
+      });
+    });
+    const drops = this.drops.get(channel) ?? 0;
+    if (drops > 0) {
+      this.drops.set(channel, drops - 1);
+    } else {
+      const payload = Buffer.from(message);
+      // Delivered after the reply, like from a real Redis
+      void Promise.resolve().then(() =>
+        receivers.forEach(({ listeners }) =>
+          listeners.forEach((listener) => listener(channel, payload)),
+        ),
+      );
+    }
+    return receivers.length;
+  }
+
+  private read(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= this.time()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
+
+type Script = (store: Store, keys: string[], args: Payload[]) => unknown;
+
+// memolock's scripts, in JS instead of Lua. Like in Redis, each runs
+// without anything else running in between.
+const SCRIPTS = new Map<string, Script>([
+  [
+    RELEASE_LOCK_SCRIPT,
+    (store, [key], [token]) =>
+      store.get(key)?.equals(Buffer.from(token)) ? store.del(key) : 0,
+  ],
+  [
+    RENEW_LOCK_SCRIPT,
+    (store, [key], [token, ms, channel, message]) => {
+      if (!store.get(key)?.equals(Buffer.from(token))) {
+        return 0;
+      }
+      store.pexpire(key, Number(ms));
+      store.publish(channel.toString(), message);
+      return 1;
+    },
+  ],
+  [
+    TAG_KEY_SCRIPT,
+    (store, [tagKey], [key, ms]) => {
+      store.sadd(tagKey, key.toString());
+      const ttl = store.pttl(tagKey);
+      if (ttl === -1 || ttl < Number(ms)) {
+        store.pexpire(tagKey, Number(ms));
+      }
+      return null;
+    },
+  ],
+  [
+    INVALIDATE_TAGS_SCRIPT,
+    (store, tagKeys) => {
+      let deleted = 0;
+      const keys: string[] = [];
+      tagKeys.forEach((tagKey) => {
+        store.smembers(tagKey).forEach((key) => {
+          deleted += store.del(key);
+          keys.push(key);
+        });
+        store.del(tagKey);
+      });
+      return [deleted, keys];
+    },
+  ],
+  [
+    BUMP_GENERATION_SCRIPT,
+    (store, [key]) => {
+      const generation = store.incr(key);
+      store.publish(key, String(generation));
+      return generation;
+    },
+  ],
+]);
+
+function runScript(
+  store: Store,
+  script: string,
+  keys: string[],
+  args: EvalArg[],
+) {
+  const run = SCRIPTS.get(script);
+  if (!run) {
+    throw new Error("MemoryRedis can only run memolock's own scripts");
+  }
+  return run(
+    store,
+    keys,
+    args.map((arg) => (typeof arg === 'number' ? String(arg) : arg)),
+  );
+}
+
+function runCommand(store: Store, command: RedisCommand) {
+  if (command.name === 'set') {
+    return store.set(command.key, command.value, command);
+  } else if (command.name === 'eval') {
+    return runScript(store, command.script, command.keys, command.args);
+  } else {
+    // Never clustered, so SPUBLISH is just PUBLISH
+    return store.publish(command.channel, command.message);
+  }
+}
+
+// Replies asynchronously like a real connection, with errors as rejections
+async function reply<T>(command: () => T): Promise<T> {
+  return command();
+}
+
+/**
+ * An in-memory stand-in for Redis, for testing code that uses memolock
+ * without a Redis server. Supports only the commands and scripts memolock
+ * runs. Keys expire by a fake clock that tests can move forward.
+ */
+export class MemoryRedis {
+  private store: Store;
+
+  constructor(opt?: MemoryRedisOpt) {
+    this.store = new Store(opt?.now ?? (() => Date.now()));
+  }
+
+  /**
+   * Returns a new connection, for `redisClient` or `redisSubClient`. Every
+   * connection sees the same keys and messages.
+   */
+  createClient(): RedisAdapter {
+    const store = this.store;
+    const subscriber: Subscriber = {
+      channels: new Set(),
+      patterns: new Map(),
+      listeners: [],
+    };
+    store.subscribers.add(subscriber);
+
+    return {
+      clustered: false,
+      get: (key) => reply(() => store.get(key)?.toString() ?? null),
+      getBuffer: (key) => reply(() => store.get(key)),
+      mget: (keys) =>
+        reply(() => store.mget(keys).map((value) => value?.toString() ?? null)),
+      mgetBuffer: (keys) => reply(() => store.mget(keys)),
+      pttl: (key) => reply(() => store.pttl(key)),
+      set: (key, value, opt) => reply(() => store.set(key, value, opt)),
+      del: (key) => reply(() => store.del(key)),
+      smembers: (key) => reply(() => store.smembers(key)),
+      publish: (channel, message) =>
+        reply(() => store.publish(channel, message)),
+      eval: (script, keys, args) =>
+        reply(() => runScript(store, script, keys, args)),
+      multi: (commands) =>
+        reply(() =>
+          commands.map((command) => {
+            try {
+              return runCommand(store, command);
+            } catch (err) {
+              return err;
+            }
+          }),
+        ),
+      subscribe: (channel) =>
+        reply(() => subscriber.channels.add(channel).size),
+      unsubscribe: (channel) =>
+        reply(() => {
+          subscriber.channels.delete(channel);
+          return subscriber.channels.size;
+        }),
+      psubscribe: (pattern) =>
+        reply(
+          () => subscriber.patterns.set(pattern, patternToRegExp(pattern)).size,
+        ),
+      onMessage: (listener) => {
+        subscriber.listeners.push(listener);
+      },
+      quit: () =>
+        reply(() => {
+          store.subscribers.delete(subscriber);
+          return 'OK';
+        }),
+    };
+  }
+
+  /** Moves the clock forward, expiring keys whose TTL runs out. */
+  advanceTime(ms: number): void {
+    this.store.offsetMs += ms;
+  }
+
+  /**
+   * Takes `redisKey`'s lock as if a process did and then got stuck. It's
+   * held for `ttlMs`, or until it's deleted.
+   */
+  holdLock(redisKey: string, ttlMs?: number): void {
+    this.store.write(
+      getLockKey(redisKey, false),
+      'memory-redis',
+      ttlMs === undefined ? undefined : this.store.time() + ttlMs,
+    );
+  }
+
+  /**
+   * Loses the next `count` messages that `redisKey`'s value is ready, as if
+   * the connection dropped them. Processes waiting on it time out instead.
+   */
+  dropMessages(redisKey: string, count = 1): void {
+    const channel = getChannel(redisKey);
+    this.store.drops.set(channel, (this.store.drops.get(channel) ?? 0) + count);
+  }
+}
+
+export default MemoryRedis;
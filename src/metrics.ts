@@ -0,0 +1,195 @@
+import type { MemolockEvents } from './index';
+
+export type MetricsOpt = {
+  // Histogram bucket upper bounds, in seconds
+  buckets?: number[];
+};
+
+// Prometheus' own defaults
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+type Labels = { [name: string]: string };
+
+interface EventSource {
+  on<E extends keyof MemolockEvents>(
+    event: E,
+    listener: (event: MemolockEvents[E]) => void,
+  ): unknown;
+}
+
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private readonly name: string, private readonly help: string) {}
+
+  inc(labels: Labels) {
+    const id = JSON.stringify(labels);
+    const series = this.series.get(id) ?? { labels, value: 0 };
+    series.value++;
+    this.series.set(id, series);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'counter');
+    this.series.forEach(({ labels, value }) =>
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`),
+    );
+    return lines;
+  }
+}
+
+class Histogram {
+  private series = new Map<
+    string,
+    { labels: Labels; buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly bounds: number[],
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const id = JSON.stringify(labels);
+    const series = this.series.get(id) ?? {
+      labels,
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    // Buckets are cumulative, so a value counts towards every bound above it
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(id, series);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    const sample = (suffix: string, labels: Labels, value: number) =>
+      lines.push(`${this.name}${suffix}${formatLabels(labels)} ${value}`);
+
+    this.series.forEach(({ labels, buckets, sum, count }) => {
+      this.bounds.forEach((bound, i) =>
+        sample('_bucket', { ...labels, le: String(bound) }, buckets[i]),
+      );
+      sample('_bucket', { ...labels, le: '+Inf' }, count);
+      sample('_sum', labels, sum);
+      sample('_count', labels, count);
+    });
+    return lines;
+  }
+}
+
+function header(name: string, help: string, type: string) {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.keys(labels).map((name) => {
+    const value = labels[name]
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n');
+    return `${name}="${value}"`;
+  });
+  return `{${pairs.join(',')}}`;
+}
+
+/**
+ * Counts MemolockCache events by CacheClient name and renders them in the
+ * Prometheus text exposition format.
+ */
+export class MetricsCollector {
+  private hits = new Counter(
+    'memolock_hits_total',
+    'Values found in the local cache or Redis.',
+  );
+  private misses = new Counter(
+    'memolock_misses_total',
+    'Values that were not cached.',
+  );
+  private fetchErrors = new Counter(
+    'memolock_fetch_errors_total',
+    'Fetches that failed.',
+  );
+  private retries = new Counter(
+    'memolock_retries_total',
+    'Gets retried after a wait timed out or another fetch failed.',
+  );
+  private waitTimeouts = new Counter(
+    'memolock_wait_timeouts_total',
+    'Waits for another fetch that timed out.',
+  );
+  private decodeErrors = new Counter(
+    'memolock_decode_errors_total',
+    'Cached or published values that could not be decoded.',
+  );
+  private maxAttemptsExceeded = new Counter(
+    'memolock_max_attempts_exceeded_total',
+    'Gets that gave up after maxAttempts.',
+  );
+  private fetchDuration: Histogram;
+  private lockWaitDuration: Histogram;
+
+  constructor(cache: EventSource, opt: MetricsOpt = {}) {
+    const buckets = opt.buckets ?? DEFAULT_BUCKETS;
+    this.fetchDuration = new Histogram(
+      'memolock_fetch_duration_seconds',
+      'How long fetches took.',
+      buckets,
+    );
+    this.lockWaitDuration = new Histogram(
+      'memolock_lock_wait_duration_seconds',
+      'How long gets waited for another fetch.',
+      buckets,
+    );
+
+    cache.on('hit', ({ client, source }) => this.hits.inc({ client, source }));
+    cache.on('miss', ({ client }) => this.misses.inc({ client }));
+    cache.on('fetchSuccess', ({ client, durationMs }) =>
+      this.fetchDuration.observe({ client }, durationMs / 1000),
+    );
+    cache.on('fetchError', ({ client, durationMs }) => {
+      this.fetchErrors.inc({ client });
+      this.fetchDuration.observe({ client }, durationMs / 1000);
+    });
+    cache.on('lockWaitEnd', ({ client, durationMs }) =>
+      this.lockWaitDuration.observe({ client }, durationMs / 1000),
+    );
+    cache.on('retry', ({ client }) => this.retries.inc({ client }));
+    cache.on('waitTimeout', ({ client }) => this.waitTimeouts.inc({ client }));
+    cache.on('decodeError', ({ client }) => this.decodeErrors.inc({ client }));
+    cache.on('maxAttemptsExceeded', ({ client }) =>
+      this.maxAttemptsExceeded.inc({ client }),
+    );
+  }
+
+  render(): string {
+    const metrics = [
+      this.hits,
+      this.misses,
+      this.fetchErrors,
+      this.retries,
+      this.waitTimeouts,
+      this.decodeErrors,
+      this.maxAttemptsExceeded,
+      this.fetchDuration,
+      this.lockWaitDuration,
+    ];
+    const lines = metrics.reduce<string[]>(
+      (lines, metric) => lines.concat(metric.render()),
+      [],
+    );
+    return lines.join('\n') + '\n';
+  }
+}
+
+export default MetricsCollector;
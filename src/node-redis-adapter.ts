@@ -0,0 +1,123 @@
+import type { EvalArg, Ok, RedisAdapter, SetOpt } from './adapter';
+
+type Argument = string | Buffer;
+
+// The parts of a node-redis v4 client that the adapter uses, so memolock
+// doesn't depend on node-redis
+export interface NodeRedisClient {
+  sendCommand<T>(
+    args: Argument[],
+    options?: { returnBuffers?: boolean },
+  ): Promise<T>;
+  multi(): NodeRedisMulti;
+  subscribe(
+    channel: string,
+    listener: (message: Buffer) => void,
+    bufferMode: true,
+  ): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  pSubscribe(
+    pattern: string,
+    listener: (message: Buffer, channel: Buffer) => void,
+    bufferMode: true,
+  ): Promise<unknown>;
+  quit(): Promise<unknown>;
+}
+
+interface NodeRedisMulti {
+  addCommand(args: Argument[]): unknown;
+  exec(): Promise<unknown[]>;
+}
+
+// node-redis only takes strings and Buffers
+function toArgument(arg: EvalArg): Argument {
+  return typeof arg === 'number' ? String(arg) : arg;
+}
+
+function setArgs(key: string, value: Argument, { px, nx }: SetOpt) {
+  const args = ['SET', key, value, 'PX', String(px)];
+  return nx ? [...args, 'NX'] : args;
+}
+
+function evalArgs(script: string, keys: string[], args: EvalArg[]) {
+  return [
+    'EVAL',
+    script,
+    String(keys.length),
+    ...keys,
+    ...args.map(toArgument),
+  ];
+}
+
+/**
+ * Adapts a node-redis v4 client. Pass a `duplicate()` of it as the
+ * subscriber. Redis Cluster isn't supported through node-redis.
+ */
+export function createNodeRedisAdapter(client: NodeRedisClient): RedisAdapter {
+  const listeners = new Set<(channel: string, message: Buffer) => void>();
+  const send = <T>(args: Argument[], returnBuffers = false) =>
+    client.sendCommand<T>(args, { returnBuffers });
+
+  return {
+    clustered: false,
+    get: (key) => send(['GET', key]),
+    getBuffer: (key) => send(['GET', key], true),
+    mget: (keys) => send(['MGET', ...keys]),
+    mgetBuffer: (keys) => send(['MGET', ...keys], true),
+    pttl: (key) => send(['PTTL', key]),
+    set: (key, value, opt) => send<Ok | null>(setArgs(key, value, opt)),
+    del: (key) => send(['DEL', key]),
+    smembers: (key) => send(['SMEMBERS', key]),
+    publish: (channel, message) => send(['PUBLISH', channel, message]),
+    eval: (script, keys, args) => send(evalArgs(script, keys, args)),
+    multi: (commands) => {
+      const multi = client.multi();
+      commands.forEach((command) => {
+        if (command.name === 'set') {
+          multi.addCommand(setArgs(command.key, command.value, command));
+        } else if (command.name === 'eval') {
+          multi.addCommand(
+            evalArgs(command.script, command.keys, command.args),
+          );
+        } else {
+          multi.addCommand([
+            command.name.toUpperCase(),
+            command.channel,
+            command.message,
+          ]);
+        }
+      });
+      return multi.exec().catch((err) => {
+        // A MultiErrorReply, which rejects the whole MULTI when any command
+        // fails, but still has every command's reply or error
+        if (Array.isArray(err?.replies)) {
+          return err.replies;
+        }
+        throw err;
+      });
+    },
+    subscribe: (channel) =>
+      client.subscribe(
+        channel,
+        (message) =>
+          listeners.forEach((listener) => listener(channel, message)),
+        true,
+      ),
+    unsubscribe: (channel) => client.unsubscribe(channel),
+    psubscribe: (pattern) =>
+      client.pSubscribe(
+        pattern,
+        (message, channel) =>
+          listeners.forEach((listener) =>
+            listener(channel.toString(), message),
+          ),
+        true,
+      ),
+    onMessage: (listener) => {
+      listeners.add(listener);
+    },
+    quit: () => client.quit(),
+  };
+}
+
+export default createNodeRedisAdapter;
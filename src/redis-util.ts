@@ -1,58 +1,91 @@
-import Redis from 'ioredis';
+import type { RedisAdapter } from './adapter';
+import { Payload, unwrap } from './envelope';
+
+/**
+ * The fetch failed in whichever process held the lock, or the failure was
+ * cached with errorTtlMs. Keeps the original error's message; its name is
+ * in `originalName`.
+ */
+export class RemoteFetchError extends Error {
+  constructor(message: string, public readonly originalName: string) {
+    super(message);
+    this.name = 'RemoteFetchError';
+  }
+}
+
+/**
+ * How subscribeOnce learns a value is ready. With 'pubsub' it only waits for
+ * the message, which is missed if it was published before the SUBSCRIBE
+ * went through. With 'recheck' it also reads the value once subscribed.
+ */
+export type WakeUpMode = 'pubsub' | 'recheck';
 
 export class RedisUtilService {
-  private subInfo: {
-    [channel: string]: {
-      callbacks: Set<SubSuccess>;
-      errCallbacks: Set<SubError>;
-      timeouts: NodeJS.Timeout[];
-      decode: (message: string) => unknown;
-    };
-  } = {};
+  private subInfo: { [channel: string]: SubInfo } = {};
+
+  // Long-lived subscriptions, unlike subInfo which is cleared on first message
+  private listeners: { [channel: string]: Set<Listener> } = {};
+  // Settles once each long-lived channel's SUBSCRIBE goes through or fails
+  private subscriptions: { [channel: string]: Promise<void> } = {};
+  private patternSubscription?: Promise<unknown>;
 
+  /**
+   * With a `channelPattern`, subscribeOnce waits on channels it matches
+   * through a single PSUBSCRIBE instead of a SUBSCRIBE for each. Otherwise
+   * with `sharded`, it uses SSUBSCRIBE if the adapter has it.
+   */
   constructor(
-    private readonly redisSubClient: Redis.Redis,
+    private readonly redisSubClient: RedisAdapter,
     private errorHandler: ErrorHandler = (e) => console.error(e),
+    private readonly wakeUp: WakeUpMode = 'pubsub',
+    private readonly channelPattern?: string,
+    private readonly sharded = false,
   ) {
-    this.redisSubClient.on('message', (channel: string, message: string) => {
-      if (!this.subInfo[channel]) {
-        return;
-      }
-
-      const { callbacks, errCallbacks, timeouts, decode } =
-        this.subInfo[channel];
-      delete this.subInfo[channel];
+    this.redisSubClient.onMessage((channel, message) => {
+      this.listeners[channel]?.forEach((listener) =>
+        this.safeCall(() => listener(message.toString())),
+      );
 
-      let data: unknown;
-      try {
-        data = decode(message);
-      } catch (err) {
-        errCallbacks.forEach((cb) =>
-          this.safeCall(() => cb(false, err as Error)),
+      if (this.subInfo[channel]) {
+        this.handleMessage(
+          channel,
+          this.subInfo[channel].binary ? message : message.toString(),
         );
-        timeouts.forEach((timeout) => clearTimeout(timeout));
-        this.redisSubClient.unsubscribe(channel).catch(this.errorHandler);
-        return;
       }
-
-      callbacks.forEach((cb) => this.safeCall(() => cb(data)));
-      timeouts.forEach((timeout) => clearTimeout(timeout));
-      this.redisSubClient.unsubscribe(channel).catch(this.errorHandler);
     });
   }
 
+  // Resolves once subscribed. Failing to subscribe goes to errorHandler.
+  subscribe(channel: string, listener: Listener): Promise<void> {
+    if (this.listeners[channel]) {
+      this.listeners[channel].add(listener);
+    } else {
+      this.listeners[channel] = new Set([listener]);
+      this.subscriptions[channel] = this.redisSubClient
+        .subscribe(channel)
+        .then(() => undefined, this.errorHandler);
+    }
+    return this.subscriptions[channel];
+  }
+
   subscribeOnce(
     channel: string,
     {
       timeoutMs,
       decode,
+      binary = false,
       onSuccess,
       onError: onError_UNSAFE,
+      recheck,
     }: {
       timeoutMs: number;
-      decode: (message: string) => unknown;
+      decode: (message: Payload) => unknown;
+      binary?: boolean;
       onSuccess: SubSuccess;
       onError: (timeout: boolean, err?: Error) => void;
+      // Resolves to the message if the value is already ready, null to keep
+      // waiting, or false if nothing will be published
+      recheck?: () => Promise<Payload | null | false>;
     },
   ) {
     let hadCallback = false;
@@ -68,24 +101,134 @@ export class RedisUtilService {
       this.subInfo[channel].callbacks.add(onSuccess);
       this.subInfo[channel].errCallbacks.add(onError);
     } else {
-      this.subInfo[channel] = {
+      const info: SubInfo = {
         callbacks: new Set([onSuccess]),
         errCallbacks: new Set([onError]),
         timeouts: [],
         decode,
+        binary,
       };
-      this.redisSubClient.subscribe(channel).catch((err) => {
-        onError(false, err);
-        this.unsubscribeFromSubscribeOnce(channel, onSuccess, onError);
-      });
+      this.subInfo[channel] = info;
+      this.subscribeToChannel(channel).then(
+        () => {
+          // Later waiters join a live subscription, so only the first checks
+          if (this.wakeUp === 'recheck' && recheck) {
+            this.recheck(channel, info, recheck);
+          }
+        },
+        (err) => {
+          onError(false, err);
+          this.unsubscribeFromSubscribeOnce(channel, onSuccess, onError);
+        },
+      );
     }
 
-    this.subInfo[channel].timeouts.push(
-      setTimeout(() => {
+    const { timeouts } = this.subInfo[channel];
+    const subTimeout: SubTimeout = {
+      timer: setTimeout(() => subTimeout.onTimeout(), timeoutMs),
+      onTimeout: () => {
+        timeouts.splice(timeouts.indexOf(subTimeout), 1);
         this.unsubscribeFromSubscribeOnce(channel, onSuccess, onError);
         onError(true);
-      }, timeoutMs),
-    );
+      },
+    };
+    timeouts.push(subTimeout);
+  }
+
+  private subscribeToChannel(channel: string): Promise<unknown> {
+    const { ssubscribe } = this.redisSubClient;
+    if (!this.channelPattern) {
+      return this.sharded && ssubscribe
+        ? ssubscribe.call(this.redisSubClient, channel)
+        : this.redisSubClient.subscribe(channel);
+    }
+
+    this.patternSubscription ??= this.redisSubClient
+      .psubscribe(this.channelPattern)
+      .catch((err) => {
+        // Try again on the next wait
+        this.patternSubscription = undefined;
+        throw err;
+      });
+    return this.patternSubscription;
+  }
+
+  private unsubscribeFromChannel(channel: string) {
+    const { sunsubscribe } = this.redisSubClient;
+    // The pattern stays subscribed for every channel
+    if (!this.channelPattern) {
+      (this.sharded && sunsubscribe
+        ? sunsubscribe.call(this.redisSubClient, channel)
+        : this.redisSubClient.unsubscribe(channel)
+      ).catch(this.errorHandler);
+    }
+  }
+
+  // The value may have been published before we subscribed
+  private recheck(
+    channel: string,
+    info: SubInfo,
+    recheck: () => Promise<Payload | null | false>,
+  ) {
+    recheck().then((message) => {
+      // Unless the message arrived, or every waiter gave up, in the meantime
+      if (message === null || this.subInfo[channel] !== info) {
+        return;
+      }
+      if (message === false) {
+        // Fail now so waiters retry, rather than wait out their timeouts
+        delete this.subInfo[channel];
+        this.failWaiters(channel, info);
+      } else {
+        this.handleMessage(channel, message);
+      }
+    }, this.errorHandler);
+  }
+
+  private handleMessage(channel: string, message: Payload) {
+    const { header } = unwrap(message);
+    if (header?.h) {
+      // The lock holder is still alive, keep waiting instead of
+      // treating the lock as abandoned.
+      this.extendTimeouts(channel, header.h);
+      return;
+    }
+
+    const info = this.subInfo[channel];
+    const { callbacks, timeouts, decode } = info;
+    delete this.subInfo[channel];
+
+    let data: unknown;
+    try {
+      if (header?.f) {
+        throw new RemoteFetchError(header.f.message, header.f.name);
+      }
+      data = decode(message);
+    } catch (err) {
+      this.failWaiters(channel, info, err as Error);
+      return;
+    }
+
+    callbacks.forEach((cb) => this.safeCall(() => cb(data)));
+    timeouts.forEach(({ timer }) => clearTimeout(timer));
+    this.unsubscribeFromChannel(channel);
+  }
+
+  private failWaiters(
+    channel: string,
+    { errCallbacks, timeouts }: SubInfo,
+    err?: Error,
+  ) {
+    errCallbacks.forEach((cb) => this.safeCall(() => cb(false, err)));
+    timeouts.forEach(({ timer }) => clearTimeout(timer));
+    this.unsubscribeFromChannel(channel);
+  }
+
+  private extendTimeouts(channel: string, extendMs: number) {
+    for (const subTimeout of this.subInfo[channel].timeouts) {
+      clearTimeout(subTimeout.timer);
+      subTimeout.timer = setTimeout(() => subTimeout.onTimeout(), extendMs);
+    }
   }
 
   private unsubscribeFromSubscribeOnce(
@@ -105,7 +248,7 @@ export class RedisUtilService {
 
     if (info.callbacks.size === 0) {
       delete this.subInfo[channel];
-      this.redisSubClient.unsubscribe(channel).catch(this.errorHandler);
+      this.unsubscribeFromChannel(channel);
     }
   }
 
@@ -119,8 +262,18 @@ export class RedisUtilService {
   }
 }
 
+type SubInfo = {
+  callbacks: Set<SubSuccess>;
+  errCallbacks: Set<SubError>;
+  timeouts: SubTimeout[];
+  decode: (message: Payload) => unknown;
+  // Decode messages as Buffers instead of strings
+  binary: boolean;
+};
 type SubSuccess = (data: unknown) => void;
 type SubError = (timeout: boolean, err?: Error) => void;
+type SubTimeout = { timer: NodeJS.Timeout; onTimeout: () => void };
 type ErrorHandler = (err: Error) => void;
+type Listener = (message: string) => void;
 
 export default RedisUtilService;
@@ -0,0 +1,54 @@
+// Only delete the lock if we still own it. If our fetch outlived the lock
+// timeout, someone else may hold it now and we must leave it alone.
+export const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+// Push the lock's expiry back and tell waiters to keep waiting, but only
+// while we still own it. ARGV[5] is PUBLISH or SPUBLISH.
+export const RENEW_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  redis.call('pexpire', KEYS[1], ARGV[2])
+  redis.call(ARGV[5], ARGV[3], ARGV[4])
+  return 1
+end
+return 0
+`;
+
+// Record that a key has a tag. The tag set lives at least as long as any
+// key in it.
+export const TAG_KEY_SCRIPT = `
+redis.call('sadd', KEYS[1], ARGV[1])
+local ttl = redis.call('pttl', KEYS[1])
+if ttl == -1 or ttl < tonumber(ARGV[2]) then
+  redis.call('pexpire', KEYS[1], ARGV[2])
+end
+`;
+
+// Delete every key in the given tag sets along with the sets themselves.
+// DEL is chunked to stay under Lua's unpack limit.
+export const INVALIDATE_TAGS_SCRIPT = `
+local deleted = 0
+local keys = {}
+for _, tagKey in ipairs(KEYS) do
+  local members = redis.call('smembers', tagKey)
+  for i = 1, #members, 1000 do
+    deleted = deleted + redis.call('del', unpack(members, i, math.min(i + 999, #members)))
+  end
+  for _, member in ipairs(members) do
+    table.insert(keys, member)
+  end
+  redis.call('del', tagKey)
+end
+return {deleted, keys}
+`;
+
+// Bump a generation and tell every process about it
+export const BUMP_GENERATION_SCRIPT = `
+local generation = redis.call('incr', KEYS[1])
+redis.call('publish', KEYS[1], generation)
+return generation
+`;
@@ -0,0 +1,55 @@
+// The parts of an OpenTelemetry Tracer and Span that memolock uses, so a
+// tracer from `trace.getTracer()` can be passed in without memolock
+// depending on @opentelemetry/api.
+
+export type SpanAttributeValue = string | number | boolean | string[];
+
+export interface MemolockSpan {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+export interface MemolockTracer {
+  startActiveSpan<F extends (span: MemolockSpan) => unknown>(
+    name: string,
+    fn: F,
+  ): ReturnType<F>;
+}
+
+// SpanStatusCode.ERROR
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Runs `fn` inside an active span, so spans started by `fn` (including the
+ * user's fetch) are its children. Without a tracer it just runs `fn`.
+ */
+export function withSpan<T>(
+  tracer: MemolockTracer | undefined,
+  name: string,
+  attributes: { [key: string]: SpanAttributeValue },
+  fn: (span?: MemolockSpan) => Promise<T>,
+): Promise<T> {
+  if (!tracer) {
+    return fn();
+  }
+
+  return tracer.startActiveSpan(name, async (span: MemolockSpan) => {
+    Object.keys(attributes).forEach((key) =>
+      span.setAttribute(key, attributes[key]),
+    );
+    try {
+      return await fn(span);
+    } catch (err) {
+      span.recordException(err as Error);
+      span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    } finally {
+      span.end();
+    }
+  });
+}
@@ -0,0 +1,49 @@
+// A predicate, or a schema such as zod's with `parse` or `safeParse`
+export type Validator<T> =
+  | ((data: T) => boolean)
+  | { parse(data: unknown): T }
+  | {
+      safeParse(data: unknown): {
+        success: boolean;
+        data?: T;
+        error?: unknown;
+      };
+    };
+
+/**
+ * A cached or published value failed the validate option, e.g. because it
+ * was written by an older deploy. Reported to errorHandler; the value is
+ * treated as a miss.
+ */
+export class ValidationError extends Error {
+  constructor(public readonly key: string, public readonly cause?: unknown) {
+    super(`Cached value for "${key}" failed validation.`);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Schemas may transform what they parse, so use the data returned here
+ * rather than the input.
+ */
+export function validate<T>(
+  validator: Validator<T>,
+  data: T,
+): { valid: true; data: T } | { valid: false; reason?: unknown } {
+  if (typeof validator === 'function') {
+    return validator(data) ? { valid: true, data } : { valid: false };
+  }
+
+  if ('safeParse' in validator) {
+    const result = validator.safeParse(data);
+    return result.success
+      ? { valid: true, data: result.data as T }
+      : { valid: false, reason: result.error };
+  }
+
+  try {
+    return { valid: true, data: validator.parse(data) };
+  } catch (reason) {
+    return { valid: false, reason };
+  }
+}
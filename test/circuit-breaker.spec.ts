@@ -0,0 +1,312 @@
+import MemolockCache, { CircuitBreakerError, MemoryRedis } from '../src';
+import { RedisAdapter } from '../src/adapter';
+import CircuitBreaker from '../src/circuit-breaker';
+import { TAG_KEY_SCRIPT } from '../src/scripts';
+import { sleep, withShardedPubSub } from './test-util';
+
+// Rejects every command while `down` is set, like a Redis that's gone away
+function createFlakyClient(client: RedisAdapter) {
+  const state = { down: false };
+  const flaky = new Proxy(client, {
+    get: (target, name: keyof RedisAdapter) =>
+      state.down && typeof target[name] === 'function'
+        ? () => Promise.reject(new Error('Redis down'))
+        : target[name],
+  });
+  return { state, flaky };
+}
+
+describe('CircuitBreaker', () => {
+  let redis: MemoryRedis;
+  let probe: jest.Mock;
+  let onChange: jest.Mock;
+
+  beforeEach(() => {
+    redis = new MemoryRedis();
+    probe = jest.fn(async () => 'OK');
+    onChange = jest.fn();
+  });
+
+  it('should open after consecutive errors', async () => {
+    const { state, flaky } = createFlakyClient(redis.createClient());
+    const breaker = new CircuitBreaker(
+      flaky,
+      { failureThreshold: 2 },
+      probe,
+      onChange,
+    );
+    const fail = () => breaker.redisClient.get('a').catch(() => null);
+
+    state.down = true;
+    await fail();
+    state.down = false;
+    await breaker.redisClient.get('a');
+    state.down = true;
+    await fail();
+    expect(breaker.isOpen()).toBe(false);
+
+    await fail();
+    expect(breaker.isOpen()).toBe(true);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const err = onChange.mock.calls[0][0];
+    expect(err).toBeInstanceOf(CircuitBreakerError);
+    expect(err.state).toBe('open');
+    expect(err.cause).toEqual(new Error('Redis down'));
+    expect(probe).not.toHaveBeenCalled();
+  });
+
+  it('should probe after resetTimeoutMs until Redis is back', async () => {
+    const { state, flaky } = createFlakyClient(redis.createClient());
+    const breaker: CircuitBreaker = new CircuitBreaker(
+      flaky,
+      { failureThreshold: 1, resetTimeoutMs: 50 },
+      () => breaker.redisClient.pttl('probe'),
+      onChange,
+    );
+
+    state.down = true;
+    await breaker.redisClient.get('a').catch(() => null);
+    await sleep(60);
+    expect(breaker.isOpen()).toBe(true);
+    await sleep(0);
+    expect(breaker.isOpen()).toBe(true);
+
+    state.down = false;
+    await sleep(30);
+    expect(breaker.isOpen()).toBe(true);
+    await sleep(30);
+    expect(breaker.isOpen()).toBe(true);
+    await sleep(0);
+    expect(breaker.isOpen()).toBe(false);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange.mock.calls[1][0].state).toBe('closed');
+    expect(onChange.mock.calls[1][0].message).toBe(
+      'Redis is back, using the cache again.',
+    );
+  });
+
+  it('should pass on every command', async () => {
+    const subscriber = redis.createClient();
+    const breaker = new CircuitBreaker(
+      redis.createClient(),
+      {},
+      probe,
+      onChange,
+    );
+    const client = breaker.redisClient;
+    const listener = jest.fn();
+    const wrappedSubscriber = new CircuitBreaker(
+      subscriber,
+      {},
+      probe,
+      onChange,
+    ).redisClient;
+    wrappedSubscriber.onMessage(listener);
+
+    await wrappedSubscriber.subscribe('channel');
+    await wrappedSubscriber.psubscribe('pattern:*');
+    expect(client.clustered).toBe(false);
+    expect(await client.set('a', 'a', { px: 1000 })).toBe('OK');
+    expect(await client.getBuffer('a')).toEqual(Buffer.from('a'));
+    expect(await client.mget(['a'])).toEqual(['a']);
+    expect(await client.mgetBuffer(['a'])).toEqual([Buffer.from('a')]);
+    expect(await client.pttl('a')).toBeGreaterThan(0);
+    expect(await client.del('a')).toBe(1);
+    await client.eval(TAG_KEY_SCRIPT, ['tag'], ['a', 1000]);
+    expect(await client.smembers('tag')).toEqual(['a']);
+    expect(
+      await client.multi([
+        { name: 'publish', channel: 'channel', message: 'a' },
+      ]),
+    ).toEqual([1]);
+    expect(await client.publish('channel', 'b')).toBe(1);
+    expect(await client.publish('pattern:a', 'c')).toBe(1);
+    await sleep(0);
+    await wrappedSubscriber.unsubscribe('channel');
+    await Promise.all([client.quit(), wrappedSubscriber.quit()]);
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should pass on sharded pub/sub', async () => {
+    const client = withShardedPubSub(redis.createClient());
+    const breaker = new CircuitBreaker(
+      client,
+      { failureThreshold: 1 },
+      probe,
+      onChange,
+    );
+    const wrapped = breaker.redisClient;
+
+    await wrapped.ssubscribe?.('channel');
+    expect(await wrapped.spublish?.('channel', 'a')).toBe(1);
+    await wrapped.sunsubscribe?.('channel');
+    expect(client.ssubscribe).toHaveBeenCalledWith('channel');
+    expect(client.sunsubscribe).toHaveBeenCalledWith('channel');
+    expect(breaker.isOpen()).toBe(false);
+
+    client.spublish.mockRejectedValueOnce(new Error('Redis down'));
+    await expect(wrapped.spublish?.('channel', 'b')).rejects.toThrow(
+      'Redis down',
+    );
+    expect(breaker.isOpen()).toBe(true);
+  });
+
+  it('should leave out sharded pub/sub the client lacks', () => {
+    const { redisClient } = new CircuitBreaker(
+      redis.createClient(),
+      {},
+      probe,
+      onChange,
+    );
+
+    expect(redisClient.spublish).toBeUndefined();
+    expect(redisClient.ssubscribe).toBeUndefined();
+    expect(redisClient.sunsubscribe).toBeUndefined();
+  });
+});
+
+describe('MemolockCache with a circuit breaker', () => {
+  const opt = { ttlMs: 1000 };
+  let state: { down: boolean };
+  let errorHandler: jest.Mock;
+  let cache: MemolockCache;
+
+  beforeEach(() => {
+    const redis = new MemoryRedis();
+    const flakyClient = createFlakyClient(redis.createClient());
+    state = flakyClient.state;
+    errorHandler = jest.fn();
+    cache = new MemolockCache({
+      redisClient: flakyClient.flaky,
+      redisSubClient: redis.createClient(),
+      errorHandler,
+      circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 50 },
+    });
+  });
+
+  afterEach(async () => {
+    state.down = false;
+    await cache.disconnect();
+  });
+
+  const openBreaker = async () => {
+    state.down = true;
+    for (let i = 0; i < 2; i++) {
+      await expect(cache.get('a', opt, async () => 'a')).rejects.toThrow(
+        'Redis down',
+      );
+    }
+  };
+
+  it('should fetch directly once Redis keeps failing', async () => {
+    const fetch = jest.fn(async () => {
+      await sleep(10);
+      return 'value';
+    });
+    await openBreaker();
+
+    const values = await Promise.all([
+      cache.get('key', opt, fetch),
+      cache.get('key', opt, fetch),
+      cache.getMany(['key', 'other'], opt, async (keys) =>
+        Promise.all(keys.map(fetch)),
+      ),
+    ]);
+
+    expect(values).toEqual(['value', 'value', ['value', 'value']]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(errorHandler).toHaveBeenCalledWith(expect.any(CircuitBreakerError));
+  });
+
+  it('should not fetch when every key is in flight', async () => {
+    const fetchMany = jest.fn(async (keys: string[]) => keys);
+    await openBreaker();
+
+    const values = await Promise.all([
+      cache.get('key', opt, async () => 'value'),
+      cache.getMany(['key'], opt, fetchMany),
+    ]);
+
+    expect(values).toEqual(['value', ['value']]);
+    expect(fetchMany).not.toHaveBeenCalled();
+  });
+
+  it('should fetch directly for CacheClients', async () => {
+    const fetch = jest.fn(async (id: number) => `value ${id}`);
+    const client = cache.new({ ...opt, getKey: String, name: 'client' }, fetch);
+    await openBreaker();
+
+    expect(await client.get(1)).toBe('value 1');
+    expect(await client.getMany([1, 2])).toEqual(['value 1', 'value 2']);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep CacheClients to the generation they know', async () => {
+    let fetches = 0;
+    const client = cache.new(
+      { ...opt, getKey: String, name: 'client' },
+      async (id: number) => `value ${id} ${fetches++}`,
+    );
+    await client.invalidateAll();
+    expect(await client.get(1)).toBe('value 1 0');
+    await openBreaker();
+    // Redis is back, but the breaker hasn't closed yet
+    state.down = false;
+
+    expect(await client.delete(1)).toBe(1);
+    expect(await client.get(1)).toBe('value 1 1');
+  });
+
+  it('should pass on fetch errors', async () => {
+    const fetchError = jest.fn();
+    cache.on('fetchError', fetchError);
+    await openBreaker();
+
+    await expect(
+      cache.get('key', opt, async () => {
+        throw new Error('fetch failed');
+      }),
+    ).rejects.toThrow('fetch failed');
+    expect(fetchError).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'key', error: new Error('fetch failed') }),
+    );
+  });
+
+  it('should use Redis again once it is back', async () => {
+    const fetch = jest.fn(async () => 'value');
+    await openBreaker();
+    state.down = false;
+    await sleep(60);
+
+    await cache.get('key', opt, fetch);
+    await sleep(0);
+    await cache.get('key', opt, fetch);
+    await cache.get('key', opt, fetch);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(errorHandler).toHaveBeenLastCalledWith(
+      expect.objectContaining({ state: 'closed' }),
+    );
+  });
+
+  it('should default to opening after five errors', async () => {
+    const redis = new MemoryRedis();
+    const flakyClient = createFlakyClient(redis.createClient());
+    const breaker = new MemolockCache({
+      redisClient: flakyClient.flaky,
+      redisSubClient: redis.createClient(),
+      circuitBreaker: true,
+    });
+    const fetch = async () => 'value';
+    flakyClient.state.down = true;
+
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.get('key', opt, fetch)).rejects.toThrow();
+    }
+    expect(await breaker.get('key', opt, fetch)).toBe('value');
+    flakyClient.state.down = false;
+    await breaker.disconnect();
+  });
+});
@@ -0,0 +1,240 @@
+import Redis from 'ioredis';
+import Redis5 from 'ioredis5';
+
+import MemolockCache from '../src';
+import { hashTag, SlotPipeline, withSameSlot } from '../src/cluster';
+import createIORedisAdapter from '../src/ioredis-adapter';
+import { sleep } from './test-util';
+
+describe('hashTag', () => {
+  it('should use the first non-empty hash tag', () => {
+    expect(hashTag('{user:1}:profile')).toBe('user:1');
+    expect(hashTag('a{b}{c}')).toBe('b');
+    expect(hashTag('{}{a}')).toBe('{}{a}');
+    expect(hashTag('a{b')).toBe('a{b');
+    expect(hashTag('a}b{')).toBe('a}b{');
+    expect(hashTag('plain')).toBe('plain');
+  });
+});
+
+describe('withSameSlot', () => {
+  it('should hash tag keys without one', () => {
+    expect(withSameSlot('plain', ':lock')).toBe('{plain}:lock');
+    expect(hashTag(withSameSlot('plain', ':lock'))).toBe(hashTag('plain'));
+  });
+
+  it('should keep existing hash tags', () => {
+    expect(withSameSlot('{user:1}:profile', ':lock')).toBe(
+      '{user:1}:profile:lock',
+    );
+  });
+});
+
+describe('SlotPipeline', () => {
+  let redis: Redis.Redis;
+
+  beforeEach(() => {
+    redis = new Redis();
+  });
+
+  afterEach(async () => {
+    await redis.quit();
+  });
+
+  it('should return replies in the order commands were added', async () => {
+    const adapter = { ...createIORedisAdapter(redis), clustered: true };
+    const multiSpy = jest.spyOn(adapter, 'multi');
+    const pipeline = new SlotPipeline(adapter);
+    await redis.del('{a}:1', '{a}:2', 'b');
+
+    pipeline.add(
+      '{a}:1',
+      { name: 'set', key: '{a}:1', value: 'a1', px: 1000 },
+      { name: 'set', key: '{a}:2', value: 'a2', px: 1000, nx: true },
+    );
+    pipeline.add('b', { name: 'set', key: 'b', value: 'b', px: 1000 });
+    pipeline.add('{a}:2', {
+      name: 'set',
+      key: '{a}:2',
+      value: 'a2',
+      px: 1000,
+      nx: true,
+    });
+
+    expect(await pipeline.exec()).toEqual(['OK', 'OK', 'OK', null]);
+    expect(multiSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use a single multi without a cluster', async () => {
+    const adapter = createIORedisAdapter(redis);
+    const multiSpy = jest.spyOn(adapter, 'multi');
+    const pipeline = new SlotPipeline(adapter);
+
+    pipeline.add('a', { name: 'publish', channel: 'a', message: 'a' });
+    pipeline.add('b', { name: 'publish', channel: 'b', message: 'b' });
+
+    expect(await pipeline.exec()).toEqual([0, 0]);
+    expect(multiSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+// Needs a running cluster, e.g. REDIS_CLUSTER_NODES=127.0.0.1:7000,127.0.0.1:7001
+const CLUSTER_NODES = process.env.REDIS_CLUSTER_NODES?.split(',');
+
+(CLUSTER_NODES ? describe : describe.skip)('Redis Cluster', () => {
+  const services: MemolockCache[] = [];
+  const createService = () => {
+    const nodes = CLUSTER_NODES as string[];
+    const service = new MemolockCache({
+      redisClient: new Redis.Cluster(nodes),
+      redisSubClient: new Redis.Cluster(nodes),
+    });
+    services.push(service);
+    return service;
+  };
+
+  afterEach(async () => {
+    await Promise.all(
+      services.splice(0).map((service) => service.disconnect()),
+    );
+  });
+
+  const OPT = { ttlMs: 5000, lockTimeout: 500 };
+  let keyId = 0;
+  const getKey = () => `test:cluster:${Date.now()}:${keyId++}`;
+
+  it('should only fetch once across processes', async () => {
+    const key = getKey();
+    const fetch = jest.fn(async () => {
+      await sleep(50);
+      return 'value';
+    });
+
+    const values = await Promise.all([
+      createService().get(key, OPT, fetch),
+      createService().get(key, OPT, fetch),
+      createService().get(key, OPT, fetch),
+    ]);
+
+    expect(values).toEqual(['value', 'value', 'value']);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should get many keys across slots', async () => {
+    const keys = [getKey(), getKey(), getKey(), getKey()];
+    const service = createService();
+    await service.set(keys[0], 'cached', OPT);
+
+    expect(
+      await service.getMany(keys, OPT, (missing) =>
+        missing.map((key) => `fetched ${key}`),
+      ),
+    ).toEqual(['cached', ...keys.slice(1).map((key) => `fetched ${key}`)]);
+  });
+
+  it('should invalidate tags across slots', async () => {
+    const [a, b] = [getKey(), getKey()];
+    const service = createService();
+    const tags = [getKey()];
+    await service.set(a, 1, { ...OPT, tags });
+    await service.set(b, 2, { ...OPT, tags });
+
+    expect(await service.invalidateTags(tags)).toBe(2);
+    expect(await service.get(a, OPT, () => 3)).toBe(3);
+  });
+
+  it('should tell waiters about failed fetches', async () => {
+    const key = getKey();
+    const opt = { ...OPT, propagateFetchErrors: true };
+    const fetch = async () => {
+      await sleep(50);
+      throw new Error('fetch failed');
+    };
+
+    const results = await Promise.allSettled([
+      createService().get(key, opt, fetch),
+      createService().get(key, opt, fetch),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'rejected',
+      'rejected',
+    ]);
+  });
+
+  // Needs Redis 7
+  describe('with sharded pub/sub', () => {
+    const createShardedService = () => {
+      const nodes = CLUSTER_NODES as string[];
+      const service = new MemolockCache({
+        redisClient: new Redis5.Cluster(nodes),
+        redisSubClient: new Redis5.Cluster(nodes, { shardedSubscribers: true }),
+      });
+      services.push(service);
+      return service;
+    };
+    const slowFetch = (ms: number) =>
+      jest.fn(async (key: string) => {
+        await sleep(ms);
+        return `fetched ${key}`;
+      });
+
+    it('should wake up waiters on keys across slots', async () => {
+      const keys = [getKey(), getKey(), getKey(), getKey()];
+      const holder = createShardedService();
+      const waiter = createShardedService();
+      const ssubscribe = jest.spyOn(waiter['redisSubClient'], 'ssubscribe');
+      const fetchMany = jest.fn(async (missing: string[]) => {
+        await sleep(100);
+        return missing.map((key) => `fetched ${key}`);
+      });
+      const fetch = slowFetch(0);
+
+      const held = holder.getMany(keys, OPT, fetchMany);
+      await sleep(30);
+      const waited = keys.map((key) =>
+        waiter.get(key, { ...OPT, maxAttempts: 1 }, () => fetch(key)),
+      );
+
+      const expected = keys.map((key) => `fetched ${key}`);
+      expect(await held).toEqual(expected);
+      expect(await Promise.all(waited)).toEqual(expected);
+      expect(fetchMany).toHaveBeenCalledTimes(1);
+      expect(fetch).not.toHaveBeenCalled();
+      expect(waiter['sharded']).toBe(true);
+      expect(ssubscribe).toHaveBeenCalledTimes(keys.length);
+    });
+
+    it('should keep waiters waiting with heartbeats', async () => {
+      const key = getKey();
+      const opt = { ...OPT, lockTimeout: 100, renewLock: true, maxAttempts: 1 };
+      const fetch = slowFetch(300);
+
+      const held = createShardedService().get(key, opt, () => fetch(key));
+      await sleep(30);
+      const waited = createShardedService().get(key, opt, () => fetch(key));
+
+      expect(await Promise.all([held, waited])).toEqual([
+        `fetched ${key}`,
+        `fetched ${key}`,
+      ]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should tell waiters about failed fetches', async () => {
+      const key = getKey();
+      const opt = { ...OPT, propagateFetchErrors: true, maxAttempts: 1 };
+      const fetch = async () => {
+        await sleep(50);
+        throw new Error('fetch failed');
+      };
+
+      const held = createShardedService().get(key, opt, fetch);
+      await sleep(10);
+      const waited = createShardedService().get(key, opt, fetch);
+
+      await expect(held).rejects.toThrow('fetch failed');
+      await expect(waited).rejects.toThrow('fetch failed');
+    });
+  });
+});
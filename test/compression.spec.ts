@@ -0,0 +1,39 @@
+import { compress, decompress } from '../src/compression';
+
+describe('Compression', () => {
+  const payload = JSON.stringify({ text: 'memolock '.repeat(500) });
+
+  it.each(['gzip', 'deflate', 'brotli'] as const)(
+    'should round trip %s',
+    (algorithm) => {
+      const compressed = compress(payload, { algorithm });
+
+      expect(compressed?.algorithm).toBe(algorithm);
+      expect(compressed?.payload.length).toBeLessThan(payload.length);
+      expect(decompress(compressed?.payload as string, algorithm)).toBe(
+        payload,
+      );
+    },
+  );
+
+  it('should keep Buffers binary', () => {
+    const compressed = compress(Buffer.from(payload), {});
+
+    expect(Buffer.isBuffer(compressed?.payload)).toBe(true);
+    expect(decompress(compressed?.payload as Buffer, 'gzip').toString()).toBe(
+      payload,
+    );
+  });
+
+  it('should default to gzip', () => {
+    expect(compress(payload, {})?.algorithm).toBe('gzip');
+  });
+
+  it('should skip payloads under the threshold', () => {
+    expect(compress('"small"', {})).toBeNull();
+    expect(
+      compress(payload, { thresholdBytes: payload.length + 1 }),
+    ).toBeNull();
+    expect(compress('"small"', { thresholdBytes: 0 })).not.toBeNull();
+  });
+});
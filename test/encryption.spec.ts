@@ -0,0 +1,110 @@
+import { randomBytes } from 'crypto';
+
+import { createEncryptionCodec } from '../src';
+
+describe('createEncryptionCodec', () => {
+  const oldKey = randomBytes(32);
+  const newKey = randomBytes(32);
+
+  it('should round trip values without storing them in plaintext', () => {
+    const codec = createEncryptionCodec({
+      keys: { k1: oldKey },
+      currentKeyId: 'k1',
+    });
+
+    const encrypted = codec.encode({ email: 'someone@example.com' });
+    expect(encrypted.startsWith('enc:v1:k1:')).toBe(true);
+    expect(encrypted).not.toContain('someone');
+    expect(codec.decode(encrypted)).toEqual({ email: 'someone@example.com' });
+  });
+
+  it('should use a fresh IV for every value', () => {
+    const codec = createEncryptionCodec({
+      keys: { k1: oldKey },
+      currentKeyId: 'k1',
+    });
+
+    expect(codec.encode('same')).not.toBe(codec.encode('same'));
+  });
+
+  it('should decrypt values from retired keys after rotation', () => {
+    const before = createEncryptionCodec({
+      keys: { k1: oldKey },
+      currentKeyId: 'k1',
+    });
+    const after = createEncryptionCodec({
+      keys: { k1: oldKey, 'k:2': newKey },
+      currentKeyId: 'k:2',
+    });
+
+    const old = before.encode([1, 2]);
+    expect(after.decode(old)).toEqual([1, 2]);
+    expect(after.encode([1, 2]).startsWith('enc:v1:k:2:')).toBe(true);
+    expect(after.decode(after.encode([1, 2]))).toEqual([1, 2]);
+  });
+
+  it('should use custom encode and decode', () => {
+    const codec = createEncryptionCodec<number>({
+      keys: { k1: oldKey },
+      currentKeyId: 'k1',
+      encode: (n) => n.toString(16),
+      decode: (str) => parseInt(str, 16),
+    });
+
+    expect(codec.decode(codec.encode(255))).toBe(255);
+  });
+
+  it('should encode undefined as null', () => {
+    const codec = createEncryptionCodec({
+      keys: { k1: oldKey },
+      currentKeyId: 'k1',
+    });
+
+    expect(codec.decode(codec.encode(undefined))).toBeNull();
+  });
+
+  it('should reject tampered values', () => {
+    const codec = createEncryptionCodec({
+      keys: { k1: oldKey, k2: newKey },
+      currentKeyId: 'k1',
+    });
+    const encrypted = codec.encode('secret');
+    const sealed = Buffer.from(encrypted.slice('enc:v1:k1:'.length), 'base64');
+    sealed[sealed.length - 1] ^= 1;
+
+    expect(() =>
+      codec.decode(`enc:v1:k1:${sealed.toString('base64')}`),
+    ).toThrow();
+    // The key id is authenticated too
+    expect(() => codec.decode(encrypted.replace(':k1:', ':k2:'))).toThrow();
+  });
+
+  it('should reject unknown keys and plaintext', () => {
+    const codec = createEncryptionCodec({
+      keys: { k1: oldKey },
+      currentKeyId: 'k1',
+    });
+
+    expect(() => codec.decode('enc:v1:gone:AAAA')).toThrow(
+      'Unknown encryption key "gone".',
+    );
+    expect(() => codec.decode('"plaintext"')).toThrow(
+      'Value is not encrypted.',
+    );
+    expect(() => codec.decode('enc:v1:AAAA')).toThrow(
+      'Value is not encrypted.',
+    );
+  });
+
+  it('should validate its options', () => {
+    expect(() =>
+      createEncryptionCodec({
+        keys: { k1: randomBytes(16) },
+        currentKeyId: 'k1',
+      }),
+    ).toThrow('Encryption key "k1" must be 32 bytes.');
+    expect(() =>
+      createEncryptionCodec({ keys: { k1: oldKey }, currentKeyId: 'k2' }),
+    ).toThrow('Unknown encryption key "k2".');
+  });
+});
@@ -0,0 +1,37 @@
+import { fetchFailure, heartbeat, unwrap, wrap } from '../src/envelope';
+
+describe('Envelope', () => {
+  it('should round trip a header and payload', () => {
+    const payload = JSON.stringify({ text: 'line one\nline two' });
+    expect(unwrap(wrap({ e: 123, d: 4 }, payload))).toEqual({
+      header: { e: 123, d: 4 },
+      payload,
+    });
+  });
+
+  it('should round trip Buffers', () => {
+    const payload = Buffer.from([0, 10, 255]);
+    const { header, payload: unwrapped } = unwrap(wrap({ e: 1 }, payload));
+    expect(header).toEqual({ e: 1 });
+    expect(unwrapped).toEqual(payload);
+    expect(unwrap(payload)).toEqual({ header: null, payload });
+  });
+
+  it('should leave raw values alone', () => {
+    expect(unwrap('{"a":1}')).toEqual({ header: null, payload: '{"a":1}' });
+  });
+
+  it('should create heartbeats', () => {
+    expect(unwrap(heartbeat(500))).toEqual({ header: { h: 500 }, payload: '' });
+  });
+
+  it('should describe fetch failures', () => {
+    expect(unwrap(fetchFailure(new TypeError('bad'))).header).toEqual({
+      f: { name: 'TypeError', message: 'bad' },
+    });
+    expect(unwrap(fetchFailure('thrown string')).header).toEqual({
+      f: { name: 'Error', message: 'thrown string' },
+    });
+    expect(unwrap(fetchFailure(null)).header?.f?.message).toBe('null');
+  });
+});
@@ -1,19 +1,42 @@
+import { randomBytes } from 'crypto';
 import Redis from 'ioredis';
 
-import MemolockCache from '../src';
-import { sleep } from './test-util';
+import MemolockCache, {
+  createEncryptionCodec,
+  createIORedisAdapter,
+  MemolockEvents,
+  MemolockTracer,
+  RemoteFetchError,
+  SpanAttributeValue,
+  ValidationError,
+} from '../src';
+import { unwrap } from '../src/envelope';
+import { RENEW_LOCK_SCRIPT } from '../src/scripts';
+import { sleep, withShardedPubSub } from './test-util';
 
 describe('Redis Cache', () => {
   let service: MemolockCache;
+  // Another process, since gets within one process share their fetches
+  let otherService: MemolockCache;
+  // For reading and writing Redis directly
+  const redis = new Redis();
+
+  afterAll(async () => {
+    await redis.quit();
+  });
 
   beforeEach(async () => {
     service = new MemolockCache();
+    otherService = new MemolockCache();
   });
 
   afterEach(async () => {
     service
       .disconnect()
       .catch((err) => console.error('Error service disconnecting', err));
+    otherService
+      .disconnect()
+      .catch((err) => console.error('Error service disconnecting', err));
 
     // Make sure we've unsubscribed from all channels
     const keys = uncheckedKeys;
@@ -75,6 +98,96 @@ describe('Redis Cache', () => {
       expect(values).toEqual([...Array(20)].map(() => 0));
     });
 
+    it('should share a get in flight within the process', async () => {
+      const key = getKey();
+      const get = jest.spyOn(service['redisClient'], 'get');
+      const subscribeOnce = jest.spyOn(service['redisUtil'], 'subscribeOnce');
+      const fetch = jest.fn(async () => {
+        await sleep(20);
+        return 'value';
+      });
+      const cache = service.new(DEFAULT_OPT, fetch);
+
+      const values = await Promise.all(
+        [...Array(50)].map(async () => cache.get(key)),
+      );
+
+      expect(values).toEqual([...Array(50)].map(() => 'value'));
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(get.mock.calls.filter(([read]) => read === key)).toHaveLength(1);
+      expect(subscribeOnce).not.toHaveBeenCalled();
+    });
+
+    it('should share fetch errors within the process', async () => {
+      const key = getKey();
+      const fetch = jest.fn(async () => {
+        await sleep(20);
+        throw new Error('fail fetch');
+      });
+      const cache = service.new(DEFAULT_OPT, fetch);
+
+      const results = await Promise.allSettled([
+        cache.get(key),
+        cache.get(key),
+      ]);
+
+      expect(results).toEqual([
+        { status: 'rejected', reason: new Error('fail fetch') },
+        { status: 'rejected', reason: new Error('fail fetch') },
+      ]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share gets in flight with getMany', async () => {
+      const [a, b, c] = [getKey(), getKey(), getKey()];
+      const fetch = jest.fn(async (key: string) => {
+        await sleep(20);
+        return key;
+      });
+      const cache = service.new(
+        {
+          ...DEFAULT_OPT,
+          fetchMany: (keys: string[]) => Promise.all(keys.map(fetch)),
+        },
+        fetch,
+      );
+
+      const values = await Promise.all([
+        cache.get(a),
+        cache.getMany([a, b]),
+        cache.get(b),
+        cache.getMany([b, c]),
+      ]);
+
+      expect(values).toEqual([a, [a, b], b, [b, c]]);
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should handle shared gets that fail after getMany throws', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const opt = { ...DEFAULT_OPT, errorTtlMs: 1000 };
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      await expect(
+        service.get(b, opt, async () => {
+          throw new Error('b down');
+        }),
+      ).rejects.toThrow('b down');
+
+      const inFlight = service.get(a, opt, async () => {
+        await sleep(20);
+        throw new Error('a down');
+      });
+      await expect(
+        service.getMany([a, b], opt, (keys) => keys),
+      ).rejects.toThrow('b down');
+      await expect(inFlight).rejects.toThrow('a down');
+      await sleep(10);
+
+      process.off('unhandledRejection', unhandled);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+
     it('should get two separate values for different keys', async () => {
       const key = getKey();
       const first = await service.get(key, DEFAULT_OPT, simpleFetch(key));
@@ -95,19 +208,63 @@ describe('Redis Cache', () => {
       };
 
       // No lock timeout defined, will use default of 1000
-      const cache = service.new(
-        { ttlMs: 5000, getKey: (key: string) => key },
-        failFirstFetch,
-      );
+      const opt = { ttlMs: 5000, getKey: (key: string) => key };
+      const cache = service.new(opt, failFirstFetch);
+      const otherCache = otherService.new(opt, failFirstFetch);
 
       const start = Date.now();
       const firstProm = cache.get(key);
-      const secondProm = cache.get(key);
+      const secondProm = otherCache.get(key);
 
       await expect(firstProm).rejects.toThrow('fail first fetch');
       await expect(secondProm).resolves.toBe(1);
-      expect(Date.now() - start).toBeGreaterThan(1000);
-      expect(Date.now() - start).toBeLessThan(2000);
+      // Waiters hear about the failure right away instead of waiting
+      // for the lock to time out
+      expect(Date.now() - start).toBeLessThan(500);
+    });
+
+    it('should reject waiters with the fetch error if propagateFetchErrors', async () => {
+      const key = getKey();
+      const otherService = new MemolockCache();
+      const failFetch = async () => {
+        count[key]++;
+        await sleep(50);
+        throw new TypeError('fail fetch');
+      };
+      const opt = { ...DEFAULT_OPT, propagateFetchErrors: true };
+      const cache = service.new(opt, failFetch);
+      const otherCache = otherService.new(opt, failFetch);
+
+      const start = Date.now();
+      const firstProm = cache.get(key);
+      await sleep(10);
+      const secondProm = otherCache.get(key);
+
+      await expect(firstProm).rejects.toThrow('fail fetch');
+      const err = await secondProm.catch((e) => e);
+      expect(err).toBeInstanceOf(RemoteFetchError);
+      expect(err.message).toBe('fail fetch');
+      expect(err.originalName).toBe('TypeError');
+      expect(count[key]).toBe(1);
+      expect(Date.now() - start).toBeLessThan(200);
+      await otherService.disconnect();
+    });
+
+    it('should reject with the fetch error once out of attempts', async () => {
+      const key = getKey();
+      const failFetch = async () => {
+        await sleep(50);
+        throw new Error('fail fetch');
+      };
+      const opt = { ...DEFAULT_OPT, maxAttempts: 1 };
+      const cache = service.new(opt, failFetch);
+      const otherCache = otherService.new(opt, failFetch);
+
+      const firstProm = cache.get(key);
+      const secondProm = otherCache.get(key);
+
+      await expect(firstProm).rejects.toThrow('fail fetch');
+      await expect(secondProm).rejects.toThrow(RemoteFetchError);
     });
 
     it('should fail if fetch always fails', async () => {
@@ -149,6 +306,23 @@ describe('Redis Cache', () => {
       expect(second).toBe(1);
     });
 
+    it('should wait for a fetch in flight on forceRefresh', async () => {
+      const key = getKey();
+      const fetch = jest.fn(async () => {
+        await sleep(20);
+        return count[key]++;
+      });
+      const cache = service.new(DEFAULT_OPT, fetch);
+
+      const values = await Promise.all([
+        cache.get(key),
+        cache.get(key, { forceRefresh: true }),
+      ]);
+
+      expect(values).toEqual([0, 0]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle lots of concurrent requests', async () => {
       const key = getKey();
       const failEveryOther = async () => {
@@ -196,23 +370,21 @@ describe('Redis Cache', () => {
 
     it('should throw error if max attempts reached', async () => {
       const key = getKey();
-      const cache = service.new(
-        {
-          ttlMs: 70,
-          lockTimeout: 50,
-          maxAttempts: 1,
-          getKey: (key: string) => key,
-        },
-        async () => {
-          // Don't resolve until after tests complete.
-          return new Promise((res) => {
-            setTimeout(() => res(count[key]++), 300);
-          });
-        },
-      );
+      const opt = {
+        ttlMs: 70,
+        lockTimeout: 50,
+        maxAttempts: 1,
+        getKey: (key: string) => key,
+      };
+      const slowFetch = async () => {
+        // Don't resolve until after tests complete.
+        return new Promise((res) => {
+          setTimeout(() => res(count[key]++), 300);
+        });
+      };
 
-      cache.get(key);
-      await expect(cache.get(key)).rejects.toThrow(
+      service.new(opt, slowFetch).get(key);
+      await expect(otherService.new(opt, slowFetch).get(key)).rejects.toThrow(
         'Never received message that key was unlocked.',
       );
     });
@@ -224,10 +396,10 @@ describe('Redis Cache', () => {
         return count[key]++;
       };
 
-      const cache = service.new({ ...DEFAULT_OPT, lockTimeout: 50 }, slowFetch);
+      const opt = { ...DEFAULT_OPT, lockTimeout: 50 };
 
-      const first = cache.get(key);
-      const second = cache.get(key);
+      const first = service.new(opt, slowFetch).get(key);
+      const second = otherService.new(opt, slowFetch).get(key);
 
       await expect(first).resolves.toBe(0);
       await expect(second).resolves.toBe(1);
@@ -340,6 +512,65 @@ describe('Redis Cache', () => {
       expect(val).toBe(1);
     });
 
+    it("should not release another owner's lock after overrunning on success", async () => {
+      const key = getKey();
+      const lockKey = `${key}:lock`;
+      const cache = service.new(
+        { ...DEFAULT_OPT, lockTimeout: 50 },
+        async () => {
+          await sleep(120);
+          return count[key]++;
+        },
+      );
+
+      const first = cache.get(key);
+      await sleep(80);
+      // Our lock has expired, so another process takes it
+      await redis.set(lockKey, 'other-owner', 'PX', 1000);
+
+      await expect(first).resolves.toBe(0);
+      expect(await redis.get(lockKey)).toBe('other-owner');
+      await redis.del(lockKey);
+    });
+
+    it("should not release another owner's lock after overrunning on fail", async () => {
+      const key = getKey();
+      const lockKey = `${key}:lock`;
+      const cache = service.new(
+        { ...DEFAULT_OPT, lockTimeout: 50 },
+        async () => {
+          await sleep(120);
+          throw new Error('slow fail');
+        },
+      );
+
+      const first = cache.get(key);
+      await sleep(80);
+      await redis.set(lockKey, 'other-owner', 'PX', 1000);
+
+      await expect(first).rejects.toThrow('slow fail');
+      await sleep(20);
+      expect(await redis.get(lockKey)).toBe('other-owner');
+      await redis.del(lockKey);
+    });
+
+    it('should use a unique token for each lock', async () => {
+      const key = getKey();
+      const lockKey = `${key}:lock`;
+      const tokens: (string | null)[] = [];
+      const cache = service.new(DEFAULT_OPT, async () => {
+        tokens.push(await redis.get(lockKey));
+        return count[key]++;
+      });
+
+      await cache.get(key);
+      await cache.get(key, { forceRefresh: true });
+
+      expect(tokens).toHaveLength(2);
+      expect(tokens[0]).not.toBeNull();
+      expect(tokens[0]).not.toBe(tokens[1]);
+    });
+
     it('should not error if cannot delete lock when failing', async () => {
       await service.disconnect();
       const errorHandler = jest.fn();
@@ -389,173 +620,2331 @@ describe('Redis Cache', () => {
       expect(third).toBe(1); // Should have had 1000 ttlMs
     });
 
-    describe('cacheIf', () => {
-      it('should follow condition to decide if should cache', async () => {
+    describe('renewLock', () => {
+      const slowFetch = (key: string, ms: number) => async () => {
+        await sleep(ms);
+        return count[key]++;
+      };
+
+      it('should keep waiters waiting while the fetch runs', async () => {
         const key = getKey();
-        const cache = service.new(
-          { ...DEFAULT_OPT, cacheIf: (val) => val >= 1 },
-          simpleFetch(key),
-        );
+        const opt = {
+          ...DEFAULT_OPT,
+          lockTimeout: 60,
+          maxAttempts: 1,
+          renewLock: true,
+        };
+        const cache = service.new(opt, slowFetch(key, 250));
+        const otherCache = otherService.new(opt, slowFetch(key, 250));
 
-        const start = Date.now();
+        const [first, second] = await Promise.all([
+          cache.get(key),
+          otherCache.get(key),
+        ]);
 
-        const first = await cache.get(key);
         expect(first).toBe(0);
-        const second = await cache.get(key);
-        expect(second).toBe(1);
-        const third = await cache.get(key);
-        expect(third).toBe(1);
-
-        // No timeouts
-        expect(Date.now() - start).toBeLessThan(200);
+        expect(second).toBe(0);
       });
 
-      it("should publish value even if it doesn't cache", async () => {
+      it('should keep the lock while the fetch runs', async () => {
         const key = getKey();
         const cache = service.new(
-          { ...DEFAULT_OPT, cacheIf: (val) => val >= 1 },
-          simpleFetch(key),
+          { ...DEFAULT_OPT, lockTimeout: 60, renewLock: true },
+          slowFetch(key, 250),
         );
 
-        const start = Date.now();
-        const [first, second] = await Promise.all([
-          cache.get(key),
-          cache.get(key),
-        ]);
-
-        expect(first).toBe(0);
-        expect(second).toBe(0);
+        const first = cache.get(key);
+        await sleep(150);
+        expect(await redis.get(`${key}:lock`)).not.toBeNull();
 
-        // No timeouts
-        expect(Date.now() - start).toBeLessThan(200);
+        await expect(first).resolves.toBe(0);
+        expect(await redis.get(`${key}:lock`)).toBeNull();
       });
-    });
-  });
 
-  describe('Delete', () => {
-    it('should delete value', async () => {
-      const key = getKey();
-      const cache = service.new(DEFAULT_OPT, simpleFetch(key));
-      await cache.get(key);
-      await cache.delete(key);
-      const second = await cache.get(key);
+      it('should stop renewing once the lock is lost', async () => {
+        const key = getKey();
+        const lockKey = `${key}:lock`;
+        const cache = service.new(
+          { ...DEFAULT_OPT, lockTimeout: 60, renewLock: true },
+          slowFetch(key, 200),
+        );
 
-      expect(second).toBe(1);
-    });
+        const first = cache.get(key);
+        await sleep(30);
+        await redis.set(lockKey, 'other-owner', 'PX', 1000);
 
-    it('should not error on deleting non-existant key', async () => {
-      const key = getKey();
-      const countDeleted = await service.delete(key);
-      expect(countDeleted).toBe(0);
-    });
-  });
+        await expect(first).resolves.toBe(0);
+        expect(await redis.get(lockKey)).toBe('other-owner');
+        // Renewal would have reset the expiry to lockTimeout
+        expect(await redis.pttl(lockKey)).toBeGreaterThan(500);
+        await redis.del(lockKey);
+      });
 
-  describe('Set', () => {
-    it('should override existing value', async () => {
-      const key = getKey();
-      const cache = service.new(DEFAULT_OPT, simpleFetch(key));
-      await cache.get(key);
-      await cache.set(key, 2);
-      const second = await cache.get(key);
+      it('should report renewal errors to errorHandler', async () => {
+        await service.disconnect();
+        const errorHandler = jest.fn();
+        service = new MemolockCache({ errorHandler });
 
-      expect(second).toBe(2);
-    });
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, lockTimeout: 60, renewLock: true },
+          slowFetch(key, 100),
+        );
 
-    it('should encode correctly', async () => {
-      const key = getKey();
-      const cache = service.new(
-        {
-          ttlMs: 1500,
-          lockTimeout: 200,
-          getKey: (key: string) => key,
-          encode: () => 'encoded',
-          decode: (str) => str,
-        },
-        () => null,
-      );
+        const prom = cache.get(key);
+        await sleep(10);
+        await service.disconnect();
 
-      await cache.set(key, null);
-      expect(await cache.get(key)).toBe('encoded');
+        await expect(prom).rejects.toThrow();
+        expect(errorHandler).toHaveBeenCalled();
+      });
     });
-  });
 
-  describe('decode failures stay local', () => {
-    const service = new MemolockCache();
-    afterAll(() => service.disconnect());
+    describe('staleTtlMs', () => {
+      const STALE_OPT = { ...DEFAULT_OPT, ttlMs: 100, staleTtlMs: 1000 };
 
-    it('fetch that resolves to undefined does not crash the process', async () => {
-      let uncaught: Error | null = null;
-      const listener = (e: Error) => (uncaught = e);
-      process.once('uncaughtException', listener);
+      it('should return stale value and refresh in the background', async () => {
+        const key = getKey();
+        const cache = service.new(STALE_OPT, simpleFetch(key));
 
-      const KEY = 'bug:decode:undefined';
-      const cache = service.new(
-        { ttlMs: 100, lockTimeout: 30, getKey: (k: string) => k },
-        async () => {
-          await sleep(20);
-          return undefined;
-        },
-      );
+        expect(await cache.get(key)).toBe(0);
+        await sleep(150);
 
-      const [v1, v2] = await Promise.all([cache.get(KEY), cache.get(KEY)]);
-      await sleep(10);
-      process.removeListener('uncaughtException', listener);
+        const start = Date.now();
+        expect(await cache.get(key)).toBe(0);
+        expect(Date.now() - start).toBeLessThan(50);
 
-      expect(uncaught).toBeNull();
-      expect(v1).toBeUndefined();
-      expect(v2).toBeNull();
-    });
+        await sleep(50);
+        expect(await cache.get(key)).toBe(1);
+      });
 
-    it('should handle custom decode throwing errors locally', async () => {
-      let uncaught: Error | null = null;
-      const listener = (e: Error) => (uncaught = e);
-      process.once('uncaughtException', listener);
+      it('should only refresh once for concurrent stale reads', async () => {
+        const key = getKey();
+        const otherService = new MemolockCache();
+        const cache = service.new(STALE_OPT, simpleFetch(key));
+        const otherCache = otherService.new(STALE_OPT, simpleFetch(key));
 
-      const KEY = 'bug:decode:throw';
-      const cache = service.new(
-        {
-          ttlMs: 100,
-          lockTimeout: 30,
-          getKey: (k: string) => k,
-          decode: () => {
-            throw new Error('decode error');
-          },
-        },
-        async () => {
-          await sleep(20);
-          return 'some-value';
-        },
-      );
+        await cache.get(key);
+        await sleep(150);
 
-      const [res1, res2] = await Promise.allSettled([
-        cache.get(KEY),
-        cache.get(KEY),
-      ]);
-      await sleep(10);
-      process.removeListener('uncaughtException', listener);
+        const values = await Promise.all(
+          [...Array(20)].map((_, i) =>
+            i % 2 ? cache.get(key) : otherCache.get(key),
+          ),
+        );
+        await sleep(50);
+        await otherService.disconnect();
 
-      expect(uncaught).toBeNull();
+        expect(values).toEqual([...Array(20)].map(() => 0));
+        expect(count[key]).toBe(2);
+      });
 
-      expect(res1.status).toBe('fulfilled');
-      if (res1.status === 'fulfilled') {
-        expect(res1.value).toBe('some-value');
-      }
+      it('should only refresh once for stale reads during a refresh', async () => {
+        const key = getKey();
+        const fetch = jest.fn(async () => {
+          await sleep(50);
+          return count[key]++;
+        });
+        const cache = service.new(STALE_OPT, fetch);
+
+        await cache.get(key);
+        await sleep(150);
+        expect(await cache.get(key)).toBe(0);
+        expect(await cache.get(key)).toBe(0);
+        await sleep(100);
 
-      expect(res2.status).toBe('rejected');
-      if (res2.status === 'rejected') {
-        expect(res2.reason).toEqual(new Error('decode error'));
-      }
-    });
-  });
+        expect(fetch).toHaveBeenCalledTimes(2);
+      });
 
-  describe('safeCall branch', () => {
-    it('invokes errorHandler if a user callback throws', async () => {
-      const errFn = jest.fn();
-      const service = new MemolockCache({ errorHandler: errFn });
+      it('should fetch normally once the stale window passes', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, ttlMs: 50, staleTtlMs: 50 },
+          simpleFetch(key),
+        );
 
-      // get direct access to redis and util helper
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const redis = (service as any).redisClient as Redis.Redis;
+        await cache.get(key);
+        await sleep(150);
+        expect(await cache.get(key)).toBe(1);
+      });
+
+      it('should keep serving stale value if refresh fails', async () => {
+        await service.disconnect();
+        const errorHandler = jest.fn();
+        service = new MemolockCache({ errorHandler });
+
+        const key = getKey();
+        const cache = service.new(STALE_OPT, () => {
+          if (count[key]++ > 0) {
+            throw new Error('refresh failed');
+          }
+          return 0;
+        });
+
+        await cache.get(key);
+        await sleep(150);
+        expect(await cache.get(key)).toBe(0);
+        await sleep(50);
+
+        expect(errorHandler).toHaveBeenCalledWith(new Error('refresh failed'));
+        expect(await cache.get(key)).toBe(0);
+      });
+
+      it('should apply to values written with set', async () => {
+        const key = getKey();
+        const cache = service.new(STALE_OPT, simpleFetch(key));
+
+        await cache.set(key, 5);
+        await sleep(150);
+        expect(await cache.get(key)).toBe(5);
+
+        await sleep(50);
+        expect(await cache.get(key)).toBe(0);
+      });
+
+      it('should publish stale-aware values to waiters', async () => {
+        const key = getKey();
+        const opt = {
+          ...STALE_OPT,
+          decode: (str: string) => parseInt(str, 10),
+        };
+        const fetch = async () => {
+          await sleep(50);
+          return count[key]++;
+        };
+        const cache = service.new(opt, fetch);
+        const otherCache = otherService.new(opt, fetch);
+
+        const [first, second] = await Promise.all([
+          cache.get(key),
+          otherCache.get(key),
+        ]);
+
+        expect(first).toBe(0);
+        expect(second).toBe(0);
+      });
+    });
+
+    describe('earlyRefreshBeta', () => {
+      const XFETCH_OPT = { ...DEFAULT_OPT, earlyRefreshBeta: 1 };
+      const slowFetch = (key: string) => async () => {
+        await sleep(20);
+        return count[key]++;
+      };
+
+      afterEach(() => jest.restoreAllMocks());
+
+      it('should store the fetch duration with the value', async () => {
+        const key = getKey();
+        const cache = service.new(XFETCH_OPT, slowFetch(key));
+        await cache.get(key);
+
+        const { header } = unwrap((await redis.get(key)) as string);
+        expect(header?.d).toBeGreaterThanOrEqual(15);
+        expect(header?.e).toBeGreaterThan(Date.now());
+      });
+
+      it('should refresh early when the roll says so', async () => {
+        const key = getKey();
+        const cache = service.new(XFETCH_OPT, slowFetch(key));
+        await cache.get(key);
+
+        // log(tiny) is a huge negative number, so this always refreshes
+        jest.spyOn(Math, 'random').mockReturnValue(1e-300);
+        expect(await cache.get(key)).toBe(0);
+        await sleep(50);
+        expect(await cache.get(key)).toBe(1);
+      });
+
+      it('should not refresh early when the roll says not to', async () => {
+        const key = getKey();
+        const cache = service.new(XFETCH_OPT, slowFetch(key));
+        await cache.get(key);
+
+        // log(1) is 0, so this only refreshes once actually expired
+        jest.spyOn(Math, 'random').mockReturnValue(1);
+        expect(await cache.get(key)).toBe(0);
+        await sleep(50);
+        expect(await cache.get(key)).toBe(0);
+        expect(count[key]).toBe(1);
+      });
+    });
+
+    describe('localCache', () => {
+      const LOCAL_OPT = {
+        ...DEFAULT_OPT,
+        localCache: { maxSize: 100, ttlMs: 1000 },
+      };
+
+      it('should serve hits without going to redis', async () => {
+        const key = getKey();
+        const decode = jest.fn((str: string) => JSON.parse(str));
+        const cache = service.new({ ...LOCAL_OPT, decode }, simpleFetch(key));
+
+        expect(await cache.get(key)).toBe(0);
+        await redis.set(key, '5');
+        expect(await cache.get(key)).toBe(0);
+        expect(decode).not.toHaveBeenCalled();
+      });
+
+      it('should not keep values longer than redis does', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...LOCAL_OPT, ttlMs: 100 },
+          simpleFetch(key),
+        );
+
+        expect(await cache.get(key)).toBe(0);
+        await sleep(150);
+        expect(await cache.get(key)).toBe(1);
+      });
+
+      it('should cap hits from redis by their remaining ttl', async () => {
+        const key = getKey();
+        const otherService = new MemolockCache();
+        await otherService.set(key, 5, { ttlMs: 100 });
+        await otherService.disconnect();
+
+        const cache = service.new(LOCAL_OPT, simpleFetch(key));
+        expect(await cache.get(key)).toBe(5);
+        await sleep(150);
+        expect(await cache.get(key)).toBe(0);
+      });
+
+      it('should store values received from another process', async () => {
+        const key = getKey();
+        const decode = jest.fn((str: string) => JSON.parse(str));
+        const fetch = async () => {
+          await sleep(50);
+          return count[key]++;
+        };
+        const cache = service.new({ ...LOCAL_OPT, decode }, fetch);
+        const otherCache = otherService.new({ ...LOCAL_OPT, decode }, fetch);
+
+        await Promise.all([cache.get(key), otherCache.get(key)]);
+        expect(decode).toHaveBeenCalledTimes(1);
+
+        await redis.set(key, '5');
+        expect(await otherCache.get(key)).toBe(0);
+        expect(decode).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not store received values that were not cached', async () => {
+        const key = getKey();
+        const opt = { ...LOCAL_OPT, cacheIf: () => false };
+        const fetch = async () => {
+          await sleep(50);
+          return count[key]++;
+        };
+        const cache = service.new(opt, fetch);
+        const otherCache = otherService.new(opt, fetch);
+
+        await Promise.all([cache.get(key), otherCache.get(key)]);
+        expect(await otherCache.get(key)).toBe(1);
+      });
+
+      it('should stop at the end of the fresh ttl', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...LOCAL_OPT, ttlMs: 100, staleTtlMs: 1000 },
+          simpleFetch(key),
+        );
+
+        await cache.get(key);
+        await sleep(150);
+        // Stale, so this comes from redis and triggers a refresh
+        expect(await cache.get(key)).toBe(0);
+        await sleep(50);
+        expect(await cache.get(key)).toBe(1);
+      });
+
+      it('should be shared by the whole instance when passed to it', async () => {
+        await service.disconnect();
+        service = new MemolockCache({
+          localCache: { maxSize: 100, ttlMs: 1000 },
+        });
+
+        const key = getKey();
+        expect(await service.get(key, DEFAULT_OPT, simpleFetch(key))).toBe(0);
+        await redis.set(key, '5');
+        expect(await service.get(key, DEFAULT_OPT, simpleFetch(key))).toBe(0);
+
+        const cache = service.new(DEFAULT_OPT, simpleFetch(key));
+        expect(await cache.get(key)).toBe(0);
+      });
+
+      it('should evict on delete and set', async () => {
+        const key = getKey();
+        const cache = service.new(LOCAL_OPT, simpleFetch(key));
+
+        await cache.get(key);
+        await cache.set(key, 5);
+        expect(await cache.get(key)).toBe(5);
+
+        await cache.delete(key);
+        expect(await cache.get(key)).toBe(1);
+      });
+
+      it('should evict when another process deletes or sets', async () => {
+        const key = getKey();
+        const otherService = new MemolockCache();
+        const cache = service.new(LOCAL_OPT, simpleFetch(key));
+        const otherCache = otherService.new(LOCAL_OPT, simpleFetch(key));
+
+        expect(await cache.get(key)).toBe(0);
+        await otherCache.set(key, 5);
+        await sleep(20);
+        expect(await cache.get(key)).toBe(5);
+
+        await otherCache.delete(key);
+        await sleep(20);
+        expect(await cache.get(key)).toBe(1);
+        await otherService.disconnect();
+      });
+
+      it('should skip the local cache on forceRefresh', async () => {
+        const key = getKey();
+        const cache = service.new(LOCAL_OPT, simpleFetch(key));
+
+        await cache.get(key);
+        expect(await cache.get(key, { forceRefresh: true })).toBe(1);
+        expect(await cache.get(key)).toBe(1);
+      });
+    });
+
+    describe('cacheIf', () => {
+      it('should follow condition to decide if should cache', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, cacheIf: (val) => val >= 1 },
+          simpleFetch(key),
+        );
+
+        const start = Date.now();
+
+        const first = await cache.get(key);
+        expect(first).toBe(0);
+        const second = await cache.get(key);
+        expect(second).toBe(1);
+        const third = await cache.get(key);
+        expect(third).toBe(1);
+
+        // No timeouts
+        expect(Date.now() - start).toBeLessThan(200);
+      });
+
+      it("should publish value even if it doesn't cache", async () => {
+        const key = getKey();
+        const opt = { ...DEFAULT_OPT, cacheIf: (val: number) => val >= 1 };
+        const cache = service.new(opt, simpleFetch(key));
+        const otherCache = otherService.new(opt, simpleFetch(key));
+
+        const start = Date.now();
+        const [first, second] = await Promise.all([
+          cache.get(key),
+          otherCache.get(key),
+        ]);
+
+        expect(first).toBe(0);
+        expect(second).toBe(0);
+
+        // No timeouts
+        expect(Date.now() - start).toBeLessThan(200);
+      });
+    });
+
+    describe('compress', () => {
+      const large = { text: 'memolock '.repeat(500) };
+
+      it('should store large values compressed', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, compress: { algorithm: 'brotli' } },
+          () => large,
+        );
+
+        expect(await cache.get(key)).toEqual(large);
+        const stored = (await redis.get(key)) as string;
+        expect(unwrap(stored).header).toEqual({ z: 'brotli' });
+        expect(stored.length).toBeLessThan(JSON.stringify(large).length);
+        expect(await cache.get(key)).toEqual(large);
+      });
+
+      it('should leave small values raw', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, compress: true },
+          simpleFetch(key),
+        );
+
+        await cache.get(key);
+        expect(await redis.get(key)).toBe('0');
+      });
+
+      it('should decompress for waiters', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, compress: true },
+          async () => {
+            await sleep(20);
+            return large;
+          },
+        );
+
+        const [first, second] = await Promise.all([
+          cache.get(key),
+          cache.get(key),
+        ]);
+        expect(first).toEqual(large);
+        expect(second).toEqual(large);
+      });
+
+      it("should compress published values it doesn't cache", async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, compress: true, cacheIf: () => false },
+          async () => {
+            await sleep(20);
+            return large;
+          },
+        );
+
+        const [, second] = await Promise.all([cache.get(key), cache.get(key)]);
+        expect(second).toEqual(large);
+      });
+
+      it('should read uncompressed values when compress is set', async () => {
+        const key = getKey();
+        await service.set(key, large, { ttlMs: 1000 });
+        const cache = service.new(
+          { ...DEFAULT_OPT, compress: true },
+          simpleFetch(key),
+        );
+
+        expect(await cache.get(key)).toEqual(large);
+      });
+
+      it('should compress values from set', async () => {
+        const key = getKey();
+        await service.set(key, large, {
+          ttlMs: 1000,
+          staleTtlMs: 1000,
+          compress: { algorithm: 'deflate', thresholdBytes: 10 },
+        });
+
+        const stored = (await redis.get(key)) as string;
+        expect(unwrap(stored).header).toEqual({
+          e: expect.any(Number),
+          z: 'deflate',
+        });
+        expect(await service.get(key, DEFAULT_OPT, simpleFetch(key))).toEqual(
+          large,
+        );
+      });
+    });
+
+    describe('binary', () => {
+      // Not valid UTF-8, and includes newlines and the NUL byte
+      const bytes = [0, 10, 255, 254, 10, 128];
+      const BINARY_OPT = {
+        ...DEFAULT_OPT,
+        binary: true as const,
+        encode: (data: number[]) => Buffer.from(data),
+        decode: (buffer: Buffer) => Array.from(buffer),
+      };
+
+      it('should store and read Buffers as is', async () => {
+        const key = getKey();
+        const cache = service.new(BINARY_OPT, () => bytes);
+
+        expect(await cache.get(key)).toEqual(bytes);
+        expect(await redis.getBuffer(key)).toEqual(Buffer.from(bytes));
+        expect(await cache.get(key)).toEqual(bytes);
+      });
+
+      it('should publish Buffers to waiters', async () => {
+        const key = getKey();
+        const fetch = async () => {
+          await sleep(20);
+          return bytes;
+        };
+        const cache = service.new(BINARY_OPT, fetch);
+        const otherCache = otherService.new(BINARY_OPT, fetch);
+
+        expect(
+          await Promise.all([cache.get(key), otherCache.get(key)]),
+        ).toEqual([bytes, bytes]);
+      });
+
+      it('should wrap Buffers in envelopes', async () => {
+        const key = getKey();
+        const cache = service.new(
+          {
+            ...BINARY_OPT,
+            staleTtlMs: 1000,
+            compress: { thresholdBytes: 0 },
+          },
+          () => bytes,
+        );
+
+        await cache.get(key);
+        const stored = await redis.getBuffer(key);
+        expect(unwrap(stored).header).toEqual({
+          e: expect.any(Number),
+          z: 'gzip',
+        });
+        expect(await cache.get(key)).toEqual(bytes);
+      });
+
+      it('should be selectable per call', async () => {
+        const key = getKey();
+        const cache = service.new(DEFAULT_OPT, () => bytes);
+
+        expect(await cache.get(key, BINARY_OPT)).toEqual(bytes);
+        expect(await cache.get(key, BINARY_OPT)).toEqual(bytes);
+      });
+
+      it('should read many Buffers at once', async () => {
+        const [a, b] = [getKey(), getKey()];
+        await service.set(a, [1], BINARY_OPT);
+
+        expect(
+          await service.getMany([a, b], BINARY_OPT, (keys) =>
+            keys.map(() => bytes),
+          ),
+        ).toEqual([[1], bytes]);
+      });
+
+      it('should rethrow cached failures', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...BINARY_OPT, errorTtlMs: 1000 },
+          async (): Promise<number[]> => {
+            throw new Error('upstream down');
+          },
+        );
+
+        await expect(cache.get(key)).rejects.toThrow('upstream down');
+        await expect(cache.get(key)).rejects.toThrow(RemoteFetchError);
+      });
+    });
+
+    describe('encryption', () => {
+      it('should store values encrypted', async () => {
+        const key = getKey();
+        const cache = service.new(
+          {
+            ...DEFAULT_OPT,
+            ...createEncryptionCodec({
+              keys: { k1: randomBytes(32) },
+              currentKeyId: 'k1',
+            }),
+          },
+          () => ({ email: 'someone@example.com' }),
+        );
+
+        await cache.get(key);
+        expect(await redis.get(key)).not.toContain('someone');
+        expect(await cache.get(key)).toEqual({ email: 'someone@example.com' });
+      });
+    });
+
+    describe('validate', () => {
+      const isNumber = (data: unknown) => typeof data === 'number';
+
+      it('should refetch values that fail validation', async () => {
+        const key = getKey();
+        const errorHandler = jest.fn();
+        await service.disconnect();
+        service = new MemolockCache({ errorHandler });
+        await service.set(key, 'old shape', { ttlMs: 1000 });
+        const cache = service.new(
+          { ...DEFAULT_OPT, validate: isNumber },
+          simpleFetch(key),
+        );
+
+        expect(await cache.get(key)).toBe(0);
+        expect(await cache.get(key)).toBe(0);
+        expect(errorHandler).toHaveBeenCalledTimes(1);
+        const [[err]] = errorHandler.mock.calls;
+        expect(err).toBeInstanceOf(ValidationError);
+        expect(err.key).toBe(key);
+      });
+
+      it('should not delete a value written since it was read', async () => {
+        const key = getKey();
+        await service.set(key, 'old shape', { ttlMs: 1000 });
+
+        const get = service.get(
+          key,
+          { ...DEFAULT_OPT, validate: isNumber, cacheIf: () => false },
+          simpleFetch(key),
+        );
+        // Someone else fixes the value after our read, before our delete
+        await redis.set(key, '2', 'PX', 1000);
+
+        expect(await get).toBe(0);
+        expect(await redis.get(key)).toBe('2');
+      });
+
+      it('should report errors deleting invalid values', async () => {
+        const key = getKey();
+        const errorHandler = jest.fn();
+        await service.disconnect();
+        service = new MemolockCache({ errorHandler });
+        await service.set(key, 'old shape', { ttlMs: 1000 });
+        const error = new Error('eval failed');
+        jest.spyOn(service['redisClient'], 'eval').mockRejectedValueOnce(error);
+
+        expect(
+          await service.get(
+            key,
+            { ...DEFAULT_OPT, validate: isNumber },
+            simpleFetch(key),
+          ),
+        ).toBe(0);
+        expect(errorHandler).toHaveBeenCalledWith(error);
+      });
+
+      it('should ignore errors deleting invalid values without a handler', async () => {
+        const key = getKey();
+        await service.set(key, 'old shape', { ttlMs: 1000 });
+        jest
+          .spyOn(service['redisClient'], 'eval')
+          .mockRejectedValueOnce(new Error('eval failed'));
+
+        expect(
+          await service.get(
+            key,
+            { ...DEFAULT_OPT, validate: isNumber },
+            simpleFetch(key),
+          ),
+        ).toBe(0);
+      });
+
+      it('should use what schemas return', async () => {
+        const key = getKey();
+        const schema = {
+          parse: (data: unknown) => {
+            if (typeof data !== 'string') {
+              throw new TypeError('Expected a string');
+            }
+            return data.toUpperCase();
+          },
+        };
+        const cache = service.new(
+          { ...DEFAULT_OPT, validate: schema },
+          () => 'value',
+        );
+
+        expect(await cache.get(key)).toBe('value');
+        expect(await cache.get(key)).toBe('VALUE');
+
+        await service.set(key, 1, { ttlMs: 1000 });
+        expect(await cache.get(key, { validate: schema })).toBe('value');
+      });
+
+      it('should support safeParse', async () => {
+        const key = getKey();
+        const errorHandler = jest.fn();
+        await service.disconnect();
+        service = new MemolockCache({ errorHandler });
+        const schema = {
+          safeParse: (data: unknown) =>
+            typeof data === 'number'
+              ? { success: true, data: data * 2 }
+              : { success: false, error: new TypeError('Expected a number') },
+        };
+        await service.set(key, 'old shape', { ttlMs: 1000 });
+
+        expect(
+          await service.get(
+            key,
+            { ...DEFAULT_OPT, validate: schema },
+            simpleFetch(key),
+          ),
+        ).toBe(0);
+        expect(
+          await service.get(
+            key,
+            { ...DEFAULT_OPT, validate: schema },
+            simpleFetch(key),
+          ),
+        ).toBe(0);
+        expect(errorHandler.mock.calls[0][0].cause).toEqual(
+          new TypeError('Expected a number'),
+        );
+      });
+
+      it('should refetch when waiting for a value that fails', async () => {
+        const key = getKey();
+        // An older deploy still writing the old shape
+        const oldCache = otherService.new(DEFAULT_OPT, async () => {
+          await sleep(20);
+          return 'old shape';
+        });
+        const cache = service.new(
+          { ...DEFAULT_OPT, validate: isNumber },
+          simpleFetch(key),
+        );
+
+        const [oldValue, value] = await Promise.all([
+          oldCache.get(key),
+          cache.get(key),
+        ]);
+        expect(oldValue).toBe('old shape');
+        expect(value).toBe(0);
+      });
+
+      it('should give up with the validation error', async () => {
+        const key = getKey();
+
+        const [, result] = await Promise.allSettled([
+          otherService.get(key, DEFAULT_OPT, async () => {
+            await sleep(20);
+            return 'old shape';
+          }),
+          service.get(
+            key,
+            { ...DEFAULT_OPT, validate: isNumber, maxAttempts: 1 },
+            simpleFetch(key),
+          ),
+        ]);
+        expect(result).toEqual({
+          status: 'rejected',
+          reason: expect.any(ValidationError),
+        });
+      });
+
+      it('should refetch only the invalid values in getMany', async () => {
+        const [a, b] = [getKey(), getKey()];
+        await service.set(a, 1, { ttlMs: 1000 });
+        await service.set(b, 'old shape', { ttlMs: 1000 });
+        const fetchMany = jest.fn((keys: string[]) => keys.map(() => 2));
+
+        expect(
+          await service.getMany(
+            [a, b],
+            { ...DEFAULT_OPT, validate: isNumber },
+            fetchMany,
+          ),
+        ).toEqual([1, 2]);
+        expect(fetchMany).toHaveBeenCalledWith([b]);
+      });
+    });
+
+    describe('errorTtlMs', () => {
+      const failingFetch = (key: string) => async () => {
+        count[key]++;
+        throw new TypeError('upstream down');
+      };
+
+      it('should rethrow a cached failure without fetching', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, errorTtlMs: 1000 },
+          failingFetch(key),
+        );
+
+        await expect(cache.get(key)).rejects.toThrow('upstream down');
+        const err = await cache.get(key).catch((err) => err);
+        expect(err).toBeInstanceOf(RemoteFetchError);
+        expect(err.originalName).toBe('TypeError');
+        expect(count[key]).toBe(1);
+      });
+
+      it('should fetch again once the failure expires', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, errorTtlMs: 50 },
+          failingFetch(key),
+        );
+
+        await expect(cache.get(key)).rejects.toThrow('upstream down');
+        await sleep(100);
+        await expect(cache.get(key)).rejects.toThrow('upstream down');
+        expect(count[key]).toBe(2);
+      });
+
+      it('should clear a cached failure on delete', async () => {
+        const key = getKey();
+        let fail = true;
+        const cache = service.new(
+          { ...DEFAULT_OPT, errorTtlMs: 1000 },
+          async () => {
+            if (fail) {
+              throw new Error('upstream down');
+            }
+            return 'ok';
+          },
+        );
+
+        await expect(cache.get(key)).rejects.toThrow('upstream down');
+        fail = false;
+        await cache.delete(key);
+        expect(await cache.get(key)).toBe('ok');
+      });
+
+      it('should only cache failures matching cacheErrorIf', async () => {
+        const key = getKey();
+        const cache = service.new(
+          {
+            ...DEFAULT_OPT,
+            errorTtlMs: 1000,
+            cacheErrorIf: (err) => err instanceof RangeError,
+          },
+          failingFetch(key),
+        );
+
+        await expect(cache.get(key)).rejects.toThrow('upstream down');
+        await expect(cache.get(key)).rejects.toThrow('upstream down');
+        expect(count[key]).toBe(2);
+      });
+
+      it('should give waiters the cached failure', async () => {
+        const key = getKey();
+        const cache = service.new(
+          { ...DEFAULT_OPT, errorTtlMs: 1000 },
+          async () => {
+            count[key]++;
+            await sleep(50);
+            throw new Error('upstream down');
+          },
+        );
+
+        const results = await Promise.allSettled([
+          cache.get(key),
+          cache.get(key),
+          cache.get(key),
+        ]);
+
+        expect(results.map(({ status }) => status)).toEqual([
+          'rejected',
+          'rejected',
+          'rejected',
+        ]);
+        expect(count[key]).toBe(1);
+      });
+
+      it('should not replace a stale value with a failure', async () => {
+        const key = getKey();
+        let fail = false;
+        const cache = service.new(
+          { ...DEFAULT_OPT, ttlMs: 50, staleTtlMs: 1000, errorTtlMs: 1000 },
+          async () => {
+            if (fail) {
+              throw new Error('upstream down');
+            }
+            return 'ok';
+          },
+        );
+
+        await cache.get(key);
+        fail = true;
+        await sleep(100);
+        // Stale, so this triggers a background refresh that fails
+        expect(await cache.get(key)).toBe('ok');
+        await sleep(50);
+        expect(await cache.get(key)).toBe('ok');
+      });
+    });
+  });
+
+  describe('GetMany', () => {
+    it('should fetch all misses with one call and keep input order', async () => {
+      const [a, b, c] = [getKey(), getKey(), getKey()];
+      const fetchMany = jest.fn((keys: string[]) =>
+        keys.map((k) => 'new ' + k),
+      );
+      const cache = service.new(
+        { ...DEFAULT_OPT, fetchMany },
+        (k: string) => k,
+      );
+
+      await cache.set(b, 'cached ' + b);
+      const values = await cache.getMany([a, b, c, a]);
+
+      expect(values).toEqual([
+        'new ' + a,
+        'cached ' + b,
+        'new ' + c,
+        'new ' + a,
+      ]);
+      expect(fetchMany).toHaveBeenCalledTimes(1);
+      expect(fetchMany).toHaveBeenCalledWith([a, c]);
+      expect(await cache.get(c)).toBe('new ' + c);
+    });
+
+    it('should not fetch when everything is cached', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const fetchMany = jest.fn((keys: string[]) => keys);
+      const cache = service.new(
+        { ...DEFAULT_OPT, fetchMany },
+        (k: string) => k,
+      );
+
+      await cache.getMany([a, b]);
+      expect(await cache.getMany([b, a])).toEqual([b, a]);
+      expect(fetchMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for keys locked by another process', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const otherService = new MemolockCache();
+      const otherCache = otherService.new(DEFAULT_OPT, async (k: string) => {
+        await sleep(50);
+        return 'other ' + k;
+      });
+      const fetchMany = jest.fn((keys: string[]) =>
+        keys.map((k) => 'new ' + k),
+      );
+      const cache = service.new(
+        { ...DEFAULT_OPT, fetchMany },
+        (k: string) => k,
+      );
+
+      const otherProm = otherCache.get(a);
+      await sleep(10);
+      const values = await cache.getMany([a, b]);
+
+      expect(values).toEqual(['other ' + a, 'new ' + b]);
+      expect(fetchMany).toHaveBeenCalledWith([b]);
+      await otherProm;
+      await otherService.disconnect();
+    });
+
+    it('should share locks with concurrent gets in the same process', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const fetchMany = jest.fn(async (keys: string[]) => {
+        await sleep(50);
+        return keys.map((k) => 'many ' + k);
+      });
+      const cache = service.new(
+        { ...DEFAULT_OPT, fetchMany },
+        async (k: string) => {
+          await sleep(50);
+          return 'one ' + k;
+        },
+      );
+
+      const [single, many] = await Promise.all([
+        cache.get(a),
+        cache.getMany([a, b]),
+      ]);
+
+      expect(single).toBe('one ' + a);
+      expect(many).toEqual(['one ' + a, 'many ' + b]);
+    });
+
+    it('should fall back to fetch without fetchMany', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const cache = service.new(DEFAULT_OPT, (k: string) => 'single ' + k);
+
+      expect(await cache.getMany([a, b])).toEqual([
+        'single ' + a,
+        'single ' + b,
+      ]);
+    });
+
+    it('should release every lock if fetchMany fails', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const cache = service.new(
+        {
+          ...DEFAULT_OPT,
+          lockTimeout: 1000,
+          fetchMany: () => {
+            throw new Error('fetchMany failed');
+          },
+        },
+        (k: string) => k,
+      );
+
+      await expect(cache.getMany([a, b])).rejects.toThrow('fetchMany failed');
+      await sleep(20);
+
+      const start = Date.now();
+      expect(await cache.get(a)).toBe(a);
+      expect(await cache.get(b)).toBe(b);
+      expect(Date.now() - start).toBeLessThan(100);
+    });
+
+    it('should reject if fetchMany returns the wrong number of values', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const cache = service.new(
+        { ...DEFAULT_OPT, fetchMany: () => ['only one'] },
+        (k: string) => k,
+      );
+
+      await expect(cache.getMany([a, b])).rejects.toThrow(
+        'Expected 2 values from fetch but got 1.',
+      );
+    });
+
+    it('should refetch everything on forceRefresh', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const fetchMany = jest.fn((keys: string[]) => keys.map(() => count[a]++));
+      const cache = service.new({ ...DEFAULT_OPT, fetchMany }, () => -1);
+
+      expect(await cache.getMany([a, b])).toEqual([0, 1]);
+      expect(await cache.getMany([a, b], { forceRefresh: true })).toEqual([
+        2, 3,
+      ]);
+    });
+
+    it('should work through the local cache', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const fetchMany = jest.fn((keys: string[]) => keys);
+      const cache = service.new(
+        {
+          ...DEFAULT_OPT,
+          fetchMany,
+          localCache: { maxSize: 10, ttlMs: 1000 },
+        },
+        (k: string) => k,
+      );
+
+      await cache.getMany([a]);
+      await redis.set(a, JSON.stringify('changed'));
+      expect(await cache.getMany([a, b])).toEqual([a, b]);
+      expect(await cache.getMany([a, b])).toEqual([a, b]);
+      expect(fetchMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should be available on MemolockCache', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const values = await service.getMany([a, b], DEFAULT_OPT, (keys) =>
+        keys.map((k) => k.length),
+      );
+
+      expect(values).toEqual([a.length, b.length]);
+    });
+  });
+
+  describe('Delete', () => {
+    it('should delete value', async () => {
+      const key = getKey();
+      const cache = service.new(DEFAULT_OPT, simpleFetch(key));
+      await cache.get(key);
+      await cache.delete(key);
+      const second = await cache.get(key);
+
+      expect(second).toBe(1);
+    });
+
+    it('should not error on deleting non-existant key', async () => {
+      const key = getKey();
+      const countDeleted = await service.delete(key);
+      expect(countDeleted).toBe(0);
+    });
+  });
+
+  describe('Set', () => {
+    it('should override existing value', async () => {
+      const key = getKey();
+      const cache = service.new(DEFAULT_OPT, simpleFetch(key));
+      await cache.get(key);
+      await cache.set(key, 2);
+      const second = await cache.get(key);
+
+      expect(second).toBe(2);
+    });
+
+    it('should encode correctly', async () => {
+      const key = getKey();
+      const cache = service.new(
+        {
+          ttlMs: 1500,
+          lockTimeout: 200,
+          getKey: (key: string) => key,
+          encode: () => 'encoded',
+          decode: (str) => str,
+        },
+        () => null,
+      );
+
+      await cache.set(key, null);
+      expect(await cache.get(key)).toBe('encoded');
+    });
+  });
+
+  describe('Tags', () => {
+    it('should delete every key with an invalidated tag', async () => {
+      const [a, b, c] = [getKey(), getKey(), getKey()];
+      const tagged = service.new(
+        { ...DEFAULT_OPT, tags: ['article:1'] },
+        simpleFetch(a),
+      );
+      const untagged = service.new(DEFAULT_OPT, simpleFetch(c));
+
+      await tagged.get(a);
+      await tagged.get(b);
+      await untagged.get(c);
+
+      expect(await service.invalidateTags(['article:1'])).toBe(2);
+      expect(await tagged.get(a)).toBe(2);
+      expect(await tagged.get(b)).toBe(3);
+      expect(await untagged.get(c)).toBe(0);
+    });
+
+    it('should support tags computed from the data', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const cache = service.new(
+        { ...DEFAULT_OPT, tags: (data: string) => ['user:' + data] },
+        (k: string) => (k === a ? 'alice' : 'bob'),
+      );
+
+      await cache.get(a);
+      await cache.get(b);
+
+      expect(await service.invalidateTags(['user:bob'])).toBe(1);
+      expect(await redis.get(a)).not.toBeNull();
+      expect(await redis.get(b)).toBeNull();
+    });
+
+    it('should count keys in several tags once', async () => {
+      const key = getKey();
+      const cache = service.new(
+        { ...DEFAULT_OPT, tags: ['tag:x', 'tag:y'] },
+        simpleFetch(key),
+      );
+
+      await cache.get(key);
+      expect(await service.invalidateTags(['tag:x', 'tag:y'])).toBe(1);
+    });
+
+    it('should clean up tag sets', async () => {
+      const key = getKey();
+      await service.set(key, 1, { ttlMs: 1000, tags: ['tag:cleanup'] });
+
+      expect(await redis.smembers('memolock:tag:tag:cleanup')).toEqual([key]);
+      expect(await redis.pttl('memolock:tag:tag:cleanup')).toBeGreaterThan(0);
+
+      await service.invalidateTags(['tag:cleanup']);
+      expect(await redis.exists('memolock:tag:tag:cleanup')).toBe(0);
+      expect(await redis.get(key)).toBeNull();
+    });
+
+    it('should keep tag sets as long as their longest lived key', async () => {
+      const [a, b] = [getKey(), getKey()];
+      await service.set(a, 1, { ttlMs: 5000, tags: ['tag:ttl'] });
+      await service.set(b, 1, { ttlMs: 100, tags: ['tag:ttl'] });
+
+      expect(await redis.pttl('memolock:tag:tag:ttl')).toBeGreaterThan(4000);
+      await service.invalidateTags(['tag:ttl']);
+    });
+
+    it('should evict local copies of invalidated keys', async () => {
+      const key = getKey();
+      const cache = service.new(
+        {
+          ...DEFAULT_OPT,
+          tags: ['tag:local'],
+          localCache: { maxSize: 10, ttlMs: 1000 },
+        },
+        simpleFetch(key),
+      );
+
+      await cache.get(key);
+      await service.invalidateTags(['tag:local']);
+      expect(await cache.get(key)).toBe(1);
+    });
+
+    it('should do nothing without tags', async () => {
+      expect(await service.invalidateTags([])).toBe(0);
+      expect(await service.invalidateTags(['tag:unused'])).toBe(0);
+    });
+  });
+
+  describe('Invalidation', () => {
+    it('should notify listeners of deletes and sets from any process', async () => {
+      const key = getKey();
+      const otherService = new MemolockCache();
+      const listener = jest.fn();
+      service.onInvalidate(listener);
+      await sleep(20);
+
+      await otherService.set(key, 1, { ttlMs: 1000 });
+      await otherService.delete(key);
+      await sleep(20);
+      await otherService.disconnect();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledWith(key);
+    });
+
+    it('should stop notifying removed listeners', async () => {
+      const key = getKey();
+      const listener = jest.fn();
+      const otherListener = jest.fn();
+      const removeListener = service.onInvalidate(listener);
+      service.onInvalidate(otherListener);
+      await sleep(20);
+
+      removeListener();
+      await service.delete(key);
+      await sleep(20);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(otherListener).toHaveBeenCalledWith(key);
+    });
+  });
+
+  describe('Namespacing', () => {
+    const PREFIX = 'test:prefix:';
+
+    it('should prefix keys, locks and channels', async () => {
+      const key = getKey();
+      const prefixed = new MemolockCache({ prefix: PREFIX });
+      const otherPrefixed = new MemolockCache({ prefix: PREFIX });
+      const fetch = jest.fn(async () => {
+        await sleep(20);
+        return 'prefixed';
+      });
+
+      // Waits for the prefixed fetch, but not for the unprefixed one
+      const values = await Promise.all([
+        prefixed.get(key, DEFAULT_OPT, fetch),
+        otherPrefixed.get(key, DEFAULT_OPT, fetch),
+        service.get(key, DEFAULT_OPT, simpleFetch(key)),
+      ]);
+      await prefixed.disconnect();
+      await otherPrefixed.disconnect();
+
+      expect(values).toEqual(['prefixed', 'prefixed', 0]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(await redis.get(PREFIX + key)).toBe('"prefixed"');
+    });
+
+    it('should keep prefixes apart', async () => {
+      const key = getKey();
+      const prefixed = new MemolockCache({ prefix: PREFIX });
+
+      await service.set(key, 'unprefixed', { ttlMs: 1000 });
+      await prefixed.set(key, 'prefixed', { ttlMs: 1000 });
+      const cache = prefixed.new(DEFAULT_OPT, simpleFetch(key));
+
+      expect(await cache.get(key)).toBe('prefixed');
+      expect(await prefixed.getMany([key], DEFAULT_OPT, () => [])).toEqual([
+        'prefixed',
+      ]);
+      expect(await service.get(key, DEFAULT_OPT, simpleFetch(key))).toBe(
+        'unprefixed',
+      );
+      await cache.delete(key);
+      expect(await service.get(key, DEFAULT_OPT, simpleFetch(key))).toBe(
+        'unprefixed',
+      );
+      await prefixed.disconnect();
+    });
+
+    it('should fetch with unprefixed keys', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const prefixed = new MemolockCache({ prefix: PREFIX });
+      const fetchMany = jest.fn((keys: string[]) => keys);
+
+      expect(await prefixed.getMany([a, b], DEFAULT_OPT, fetchMany)).toEqual([
+        a,
+        b,
+      ]);
+      await prefixed.disconnect();
+
+      expect(fetchMany).toHaveBeenCalledWith([a, b]);
+    });
+
+    it('should prefix tags and invalidations', async () => {
+      const key = getKey();
+      const prefixed = new MemolockCache({ prefix: PREFIX });
+      const listener = jest.fn();
+      const unprefixedListener = jest.fn();
+      prefixed.onInvalidate(listener);
+      service.onInvalidate(unprefixedListener);
+      await sleep(20);
+
+      await prefixed.set(key, 1, { ttlMs: 1000, tags: ['prefixed'] });
+      expect(
+        await redis.sismember(PREFIX + 'memolock:tag:prefixed', PREFIX + key),
+      ).toBe(1);
+      expect(await service.invalidateTags(['prefixed'])).toBe(0);
+      expect(await prefixed.invalidateTags(['prefixed'])).toBe(1);
+      await sleep(20);
+      await prefixed.disconnect();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledWith(key);
+      expect(unprefixedListener).not.toHaveBeenCalled();
+    });
+
+    it('should pass on client keys with their namespace', async () => {
+      const key = getKey();
+      const name = 'invalidate-namespace-' + key;
+      await redis.del(PREFIX + 'memolock:generation:' + name);
+      const prefixed = new MemolockCache({ prefix: PREFIX });
+      const listener = jest.fn();
+      prefixed.onInvalidate(listener);
+      const cache = prefixed.new(
+        { ...DEFAULT_OPT, name, version: 2 },
+        simpleFetch(key),
+      );
+      await sleep(20);
+
+      await cache.delete(key);
+      await cache.invalidateAll();
+      await cache.set(key, 1);
+      await sleep(20);
+      await prefixed.disconnect();
+
+      expect(listener.mock.calls).toEqual([[`v2:${key}`], [`v2:g1:${key}`]]);
+    });
+
+    it('should keep versions apart', async () => {
+      const key = getKey();
+      const v1 = service.new({ ...DEFAULT_OPT, version: 1 }, () => 'v1');
+      const v2 = service.new({ ...DEFAULT_OPT, version: 2 }, () => 'v2');
+
+      expect(await v1.get(key)).toBe('v1');
+      expect(await v2.get(key)).toBe('v2');
+      expect(await v1.get(key)).toBe('v1');
+      expect(await redis.get('v2:' + key)).toBe('"v2"');
+    });
+
+    it('should make every entry unreachable with invalidateAll', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const name = 'invalidate-all-' + a;
+      await redis.del('memolock:generation:' + name);
+      const otherService = new MemolockCache();
+      const opt = { ...DEFAULT_OPT, name, version: 'x' };
+      const cache = service.new(opt, simpleFetch(a));
+      const otherCache = otherService.new(opt, simpleFetch(a));
+      const otherClient = otherService.new(DEFAULT_OPT, simpleFetch(b));
+
+      expect(await cache.getMany([a, b])).toEqual([0, 1]);
+      expect(await otherCache.get(a)).toBe(0);
+      expect(await otherClient.get(b)).toBe(0);
+
+      await otherCache.invalidateAll();
+      await sleep(20);
+
+      expect(await cache.get(a)).toBe(2);
+      expect(await otherCache.get(b)).toBe(3);
+      expect(await otherClient.get(b)).toBe(0);
+      expect(await redis.get('vx:g1:' + a)).toBe('2');
+      expect(await redis.get('vx:' + a)).toBe('0');
+      await otherService.disconnect();
+    });
+
+    it('should only invalidate clients with a name', async () => {
+      const key = getKey();
+      const getSpy = jest.spyOn(service['redisClient'], 'get');
+      const cache = service.new(DEFAULT_OPT, simpleFetch(key));
+
+      expect(await cache.get(key)).toBe(0);
+      await expect(cache.invalidateAll()).rejects.toThrow(
+        'invalidateAll needs a CacheClient with a name.',
+      );
+      expect(await cache.get(key)).toBe(0);
+      expect(getSpy).not.toHaveBeenCalledWith(
+        expect.stringContaining('memolock:generation:'),
+      );
+    });
+
+    it('should read the generation again after failing to', async () => {
+      const key = getKey();
+      const cache = service.new(
+        { ...DEFAULT_OPT, name: 'generation-error' },
+        simpleFetch(key),
+      );
+      const error = new Error('get failed');
+      jest.spyOn(service['redisClient'], 'get').mockRejectedValueOnce(error);
+
+      await expect(cache.get(key)).rejects.toBe(error);
+      expect(await cache.get(key)).toBe(0);
+    });
+
+    it('should subscribe to bumps before reading the generation', async () => {
+      const key = getKey();
+      const calls: string[] = [];
+      const subClient = service['redisSubClient'];
+      const subscribe = subClient.subscribe;
+      jest.spyOn(subClient, 'subscribe').mockImplementation(async (channel) => {
+        await sleep(20);
+        calls.push('subscribe');
+        return subscribe(channel);
+      });
+      const get = service['redisClient'].get;
+      jest.spyOn(service['redisClient'], 'get').mockImplementation((key) => {
+        calls.push('get');
+        return get(key);
+      });
+      const cache = service.new(
+        { ...DEFAULT_OPT, name: 'generation-order-' + key },
+        simpleFetch(key),
+      );
+
+      expect(await cache.get(key)).toBe(0);
+      expect(calls.slice(0, 2)).toEqual(['subscribe', 'get']);
+    });
+
+    it('should read the generation again once a bump is lost', async () => {
+      const key = getKey();
+      const name = 'generation-lost-' + key;
+      await redis.del('memolock:generation:' + name);
+      const subClient = createIORedisAdapter(new Redis());
+      // Loses every bump to the generation
+      const dropping = new MemolockCache({
+        redisSubClient: {
+          ...subClient,
+          onMessage: (listener) =>
+            subClient.onMessage((channel, message) => {
+              if (!channel.startsWith('memolock:generation:')) {
+                listener(channel, message);
+              }
+            }),
+        },
+      });
+      const cache = dropping.new(
+        { ...DEFAULT_OPT, name },
+        () => `fetched ${count[key]++}`,
+      );
+      const otherCache = service.new({ ...DEFAULT_OPT, name }, () => null);
+
+      expect(await cache.get(key)).toBe('fetched 0');
+      await otherCache.invalidateAll();
+      await sleep(20);
+      expect(await cache.get(key)).toBe('fetched 0');
+
+      // Once the generation is due to be read again
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+      expect(await cache.get(key)).toBe('fetched 1');
+      now.mockRestore();
+      await dropping.disconnect();
+    });
+  });
+
+  describe('Cluster mode', () => {
+    // A standalone Redis can run everything a Cluster needs
+    beforeEach(async () => {
+      await service.disconnect();
+      service = new MemolockCache({
+        redisClient: { ...createIORedisAdapter(new Redis()), clustered: true },
+      });
+    });
+
+    it('should hash tag lock keys', async () => {
+      const key = getKey();
+      const setSpy = jest.spyOn(service['redisClient'], 'set');
+
+      const values = await Promise.all([
+        service.get(key, DEFAULT_OPT, simpleFetch(key)),
+        service.get(key, DEFAULT_OPT, simpleFetch(key)),
+      ]);
+
+      expect(values).toEqual([0, 0]);
+      expect(setSpy).toHaveBeenCalledWith(`{${key}}:lock`, expect.any(String), {
+        px: DEFAULT_OPT.lockTimeout,
+        nx: true,
+      });
+      expect(await redis.get(`{${key}}:lock`)).toBeNull();
+    });
+
+    it('should get many keys without MGET', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const mgetSpy = jest.spyOn(service['redisClient'], 'mget');
+      await service.set(a, 'cached', { ttlMs: 1000 });
+
+      expect(
+        await service.getMany([a, b], DEFAULT_OPT, (keys) =>
+          keys.map(() => 'fetched'),
+        ),
+      ).toEqual(['cached', 'fetched']);
+      expect(
+        await service.getMany([a, b], DEFAULT_OPT, (keys) =>
+          keys.map(() => 'refetched'),
+        ),
+      ).toEqual(['cached', 'fetched']);
+      expect(mgetSpy).not.toHaveBeenCalled();
+    });
+
+    it('should get many binary keys without MGET', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const opt = {
+        ...DEFAULT_OPT,
+        binary: true as const,
+        encode: (data: string) => Buffer.from(data),
+        decode: (data: Buffer) => data.toString(),
+      };
+      await service.set(a, 'cached', opt);
+
+      expect(
+        await service.getMany([a, b], opt, (keys) => keys.map(() => 'fetched')),
+      ).toEqual(['cached', 'fetched']);
+    });
+
+    it('should invalidate tags one key at a time', async () => {
+      const [a, b, c] = [getKey(), getKey(), getKey()];
+      const evalSpy = jest.spyOn(service['redisClient'], 'eval');
+      await service.set(a, 1, { ttlMs: 1000, tags: ['cluster:x'] });
+      await service.set(b, 2, {
+        ttlMs: 1000,
+        tags: ['cluster:x', 'cluster:y'],
+      });
+      await service.set(c, 3, { ttlMs: 1000 });
+      evalSpy.mockClear();
+
+      expect(await service.invalidateTags(['cluster:x', 'cluster:y'])).toBe(2);
+      expect(evalSpy).not.toHaveBeenCalled();
+      expect(await redis.get(a)).toBeNull();
+      expect(await redis.get(b)).toBeNull();
+      expect(await redis.get(c)).toBe('3');
+      expect(
+        await redis.exists('memolock:tag:cluster:x', 'memolock:tag:cluster:y'),
+      ).toBe(0);
+    });
+  });
+
+  describe('Wake-up', () => {
+    // Subscribes late, so the value is published before the waiter listens
+    const createLateSubscriber = () => {
+      const adapter = createIORedisAdapter(new Redis());
+      return {
+        ...adapter,
+        subscribe: async (channel: string) => {
+          await sleep(100);
+          return adapter.subscribe(channel);
+        },
+      };
+    };
+    const slowFetch = (value: string) => async () => {
+      await sleep(50);
+      return value;
+    };
+
+    // The waiter misses while service holds the lock
+    const raceWaiter = async (
+      waiter: MemolockCache,
+      get: (
+        cache: MemolockCache,
+        fetch: () => Promise<string>,
+      ) => Promise<string>,
+    ) => {
+      const held = get(service, slowFetch('value'));
+      await sleep(10);
+      return Promise.all([held, get(waiter, slowFetch('other'))]);
+    };
+
+    it('should miss values published before subscribing with pubsub', async () => {
+      const key = getKey();
+      const waiter = new MemolockCache({
+        redisSubClient: createLateSubscriber(),
+      });
+
+      await expect(
+        raceWaiter(waiter, (cache, fetch) =>
+          cache.get(key, { ...DEFAULT_OPT, maxAttempts: 1 }, fetch),
+        ),
+      ).rejects.toThrow('Never received message that key was unlocked.');
+      await waiter.disconnect();
+    });
+
+    it('should find values published before subscribing with recheck', async () => {
+      const key = getKey();
+      const waiter = new MemolockCache({
+        redisSubClient: createLateSubscriber(),
+        wakeUp: 'recheck',
+      });
+      const waitTimeout = jest.fn();
+      waiter.on('waitTimeout', waitTimeout);
+
+      expect(
+        await raceWaiter(waiter, (cache, fetch) =>
+          cache.get(key, { ...DEFAULT_OPT, maxAttempts: 1 }, fetch),
+        ),
+      ).toEqual(['value', 'value']);
+      expect(waitTimeout).not.toHaveBeenCalled();
+      await waiter.disconnect();
+    });
+
+    it('should recheck binary values', async () => {
+      const key = getKey();
+      const waiter = new MemolockCache({
+        redisSubClient: createLateSubscriber(),
+        wakeUp: 'recheck',
+      });
+
+      expect(
+        await raceWaiter(waiter, (cache, fetch) =>
+          cache.get(
+            key,
+            {
+              ...DEFAULT_OPT,
+              maxAttempts: 1,
+              binary: true,
+              encode: (data: string) => Buffer.from(data),
+              decode: (data: Buffer) => data.toString(),
+            },
+            fetch,
+          ),
+        ),
+      ).toEqual(['value', 'value']);
+      await waiter.disconnect();
+    });
+
+    it('should retry at once if the lock was released without a value', async () => {
+      const key = getKey();
+      const opt = { ...DEFAULT_OPT, lockTimeout: 5000, cacheIf: () => false };
+      const waiter = new MemolockCache({
+        redisSubClient: createLateSubscriber(),
+        wakeUp: 'recheck',
+      });
+      const waitTimeout = jest.fn();
+      waiter.on('waitTimeout', waitTimeout);
+      const start = Date.now();
+
+      expect(
+        await raceWaiter(waiter, (cache, fetch) => cache.get(key, opt, fetch)),
+      ).toEqual(['value', 'other']);
+      expect(Date.now() - start).toBeLessThan(1000);
+      expect(waitTimeout).not.toHaveBeenCalled();
+      await waiter.disconnect();
+    });
+
+    it('should keep waiting on a refresh with recheck', async () => {
+      const key = getKey();
+      const opt = { ...DEFAULT_OPT, forceRefresh: true };
+      const waiter = new MemolockCache({ wakeUp: 'recheck' });
+      await service.set(key, 'old', DEFAULT_OPT);
+
+      const held = service.get(key, opt, slowFetch('new'));
+      await sleep(10);
+      const waited = waiter.get(key, opt, slowFetch('other'));
+
+      expect(await Promise.all([held, waited])).toEqual(['new', 'new']);
+      await waiter.disconnect();
+    });
+  });
+
+  describe('Pattern subscriptions', () => {
+    const createWaiter = (prefix?: string) =>
+      new MemolockCache({ prefix, subscriptions: 'pattern' });
+
+    it('should wait for values without subscribing to each key', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const waiter = createWaiter();
+      const subscribe = jest.spyOn(waiter['redisSubClient'], 'subscribe');
+      const fetch = (value: string) => async () => {
+        await sleep(50);
+        return value;
+      };
+      const lockWait = jest.fn();
+      waiter.on('lockWait', lockWait);
+
+      const held = [
+        service.get(a, DEFAULT_OPT, fetch('a')),
+        service.get(b, DEFAULT_OPT, fetch('b')),
+      ];
+      await sleep(10);
+      const waited = [
+        waiter.get(a, DEFAULT_OPT, fetch('other')),
+        waiter.get(b, DEFAULT_OPT, fetch('other')),
+      ];
+
+      expect(await Promise.all([...held, ...waited])).toEqual([
+        'a',
+        'b',
+        'a',
+        'b',
+      ]);
+      expect(lockWait).toHaveBeenCalledTimes(2);
+      expect(subscribe).not.toHaveBeenCalled();
+      await waiter.disconnect();
+    });
+
+    it('should escape the prefix in the pattern', async () => {
+      const key = getKey();
+      const prefix = 'test:glob[ab]*?:';
+      const holder = new MemolockCache({ prefix });
+      const waiter = createWaiter(prefix);
+      const fetch = async () => {
+        await sleep(50);
+        return 'value';
+      };
+
+      const held = holder.get(key, DEFAULT_OPT, fetch);
+      await sleep(10);
+      const waited = waiter.get(key, { ...DEFAULT_OPT, maxAttempts: 1 }, fetch);
+
+      expect(await Promise.all([held, waited])).toEqual(['value', 'value']);
+      await Promise.all([holder.disconnect(), waiter.disconnect()]);
+    });
+  });
+
+  describe('Sharded pub/sub', () => {
+    // Clustered clients, with regular pub/sub standing in for sharded
+    const createSharded = (subscriptions?: 'pattern') => {
+      const [redisClient, redisSubClient] = [new Redis(), new Redis()].map(
+        (client) =>
+          withShardedPubSub({
+            ...createIORedisAdapter(client),
+            clustered: true,
+          }),
+      );
+      const cache = new MemolockCache({
+        redisClient,
+        redisSubClient,
+        subscriptions,
+      });
+      return { cache, redisClient, redisSubClient };
+    };
+    const slowFetch = jest.fn(async () => {
+      await sleep(50);
+      return 'value';
+    });
+
+    beforeEach(() => slowFetch.mockClear());
+
+    it('should wake up waiters on hash tagged shard channels', async () => {
+      const key = getKey();
+      const channel = `{${key}}_done`;
+      const holder = createSharded();
+      const waiter = createSharded();
+
+      const held = holder.cache.get(key, DEFAULT_OPT, slowFetch);
+      await sleep(10);
+      const waited = waiter.cache.get(
+        key,
+        { ...DEFAULT_OPT, maxAttempts: 1 },
+        slowFetch,
+      );
+
+      expect(await Promise.all([held, waited])).toEqual(['value', 'value']);
+      expect(slowFetch).toHaveBeenCalledTimes(1);
+      expect(holder.redisClient.multi).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          { name: 'spublish', channel, message: expect.anything() },
+        ]),
+      );
+      expect(waiter.redisSubClient.ssubscribe).toHaveBeenCalledWith(channel);
+      expect(waiter.redisSubClient.sunsubscribe).toHaveBeenCalledWith(channel);
+      await Promise.all([holder.cache.disconnect(), waiter.cache.disconnect()]);
+    });
+
+    it('should send lock heartbeats with SPUBLISH', async () => {
+      const key = getKey();
+      const holder = createSharded();
+      const evalSpy = jest.spyOn(holder.redisClient, 'eval');
+
+      await holder.cache.get(
+        key,
+        { ...DEFAULT_OPT, lockTimeout: 60, renewLock: true },
+        slowFetch,
+      );
+
+      expect(evalSpy).toHaveBeenCalledWith(
+        RENEW_LOCK_SCRIPT,
+        [`{${key}}:lock`],
+        [
+          expect.any(String),
+          60,
+          `{${key}}_done`,
+          expect.anything(),
+          'spublish',
+        ],
+      );
+      await holder.cache.disconnect();
+    });
+
+    it('should only be used on a Cluster without pattern subscriptions', async () => {
+      const pattern = createSharded('pattern');
+      const standalone = new MemolockCache({
+        redisClient: withShardedPubSub(createIORedisAdapter(new Redis())),
+        redisSubClient: withShardedPubSub(createIORedisAdapter(new Redis())),
+      });
+      const unsupported = new MemolockCache({
+        redisClient: withShardedPubSub({
+          ...createIORedisAdapter(new Redis()),
+          clustered: true,
+        }),
+        redisSubClient: {
+          ...createIORedisAdapter(new Redis()),
+          clustered: true,
+        },
+      });
+      const caches = [pattern.cache, standalone, unsupported];
+
+      expect(caches.map((cache) => cache['sharded'])).toEqual([
+        false,
+        false,
+        false,
+      ]);
+      await Promise.all(caches.map((cache) => cache.disconnect()));
+    });
+  });
+
+  describe('Events', () => {
+    const recordEvents = (cache: MemolockCache) => {
+      const events: [string, MemolockEvents[keyof MemolockEvents]][] = [];
+      const names = [
+        'hit',
+        'miss',
+        'lockAcquired',
+        'lockWait',
+        'lockWaitEnd',
+        'waitTimeout',
+        'retry',
+        'fetchSuccess',
+        'fetchError',
+        'decodeError',
+        'validationError',
+        'maxAttemptsExceeded',
+      ] as const;
+      names.forEach((name) =>
+        cache.on(name, (event) => events.push([name, event])),
+      );
+      return events;
+    };
+
+    it('should emit misses, locks, fetches and hits', async () => {
+      const key = getKey();
+      const events = recordEvents(service);
+      const cache = service.new(
+        {
+          ...DEFAULT_OPT,
+          name: 'counter',
+          localCache: { maxSize: 10, ttlMs: 1000 },
+        },
+        simpleFetch(key),
+      );
+
+      await Promise.all([cache.get(key), cache.get(key)]);
+      await cache.get(key);
+      await service.get(key, DEFAULT_OPT, simpleFetch(key));
+
+      expect(events).toEqual([
+        // The second get shares the first, so it has no events of its own
+        ['miss', { key, client: 'counter' }],
+        ['lockAcquired', { key, client: 'counter' }],
+        [
+          'fetchSuccess',
+          { key, client: 'counter', durationMs: expect.any(Number) },
+        ],
+        ['hit', { key, client: 'counter', source: 'local' }],
+        ['hit', { key, client: 'default', source: 'redis' }],
+      ]);
+    });
+
+    it('should emit fetch errors with their duration', async () => {
+      const key = getKey();
+      const error = new Error('fail');
+      const listener = jest.fn();
+      service.on('fetchError', listener);
+      const cache = service.new(DEFAULT_OPT, async () => {
+        await sleep(30);
+        throw error;
+      });
+
+      await expect(cache.get(key)).rejects.toThrow('fail');
+
+      expect(listener).toHaveBeenCalledWith({
+        key,
+        client: 'default',
+        durationMs: expect.any(Number),
+        error,
+      });
+      expect(listener.mock.calls[0][0].durationMs).toBeGreaterThanOrEqual(25);
+    });
+
+    it('should emit timeouts and giving up', async () => {
+      const key = getKey();
+      const events = recordEvents(service);
+      await redis.set(`${key}:lock`, 'other', 'PX', 1000);
+
+      await expect(
+        service.get(
+          key,
+          { ...DEFAULT_OPT, lockTimeout: 30, maxAttempts: 2 },
+          simpleFetch(key),
+        ),
+      ).rejects.toThrow('Never received message that key was unlocked.');
+
+      expect(events.filter(([name]) => name !== 'miss')).toEqual([
+        ['lockWait', { key, client: 'default' }],
+        [
+          'lockWaitEnd',
+          { key, client: 'default', durationMs: expect.any(Number) },
+        ],
+        ['waitTimeout', { key, client: 'default', attempt: 1 }],
+        ['retry', { key, client: 'default', attempt: 2 }],
+        ['lockWait', { key, client: 'default' }],
+        [
+          'lockWaitEnd',
+          { key, client: 'default', durationMs: expect.any(Number) },
+        ],
+        ['waitTimeout', { key, client: 'default', attempt: 2 }],
+        ['maxAttemptsExceeded', { key, client: 'default', attempts: 2 }],
+      ]);
+    });
+
+    it('should emit decode errors', async () => {
+      const key = getKey();
+      const events = recordEvents(service);
+      await redis.set(key, 'not json', 'PX', 1000);
+
+      await expect(
+        service.get(key, DEFAULT_OPT, simpleFetch(key)),
+      ).rejects.toThrow();
+
+      expect(events.map(([name]) => name)).toEqual(['decodeError']);
+    });
+
+    it('should not count invalid values or cached failures as hits', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const events = recordEvents(service);
+      await redis.set(a, '"old"', 'PX', 1000);
+      const opt = {
+        ...DEFAULT_OPT,
+        errorTtlMs: 1000,
+        validate: (data: unknown) => data === 'new',
+      };
+
+      expect(await service.get(a, opt, async () => 'new')).toBe('new');
+      await expect(
+        service.get(b, opt, async () => {
+          throw new Error('fail fetch');
+        }),
+      ).rejects.toThrow('fail fetch');
+      await expect(service.get(b, opt, async () => 'new')).rejects.toThrow(
+        RemoteFetchError,
+      );
+
+      expect(events.map(([name, { key }]) => [name, key])).toEqual([
+        ['validationError', a],
+        ['miss', a],
+        ['lockAcquired', a],
+        ['fetchSuccess', a],
+        ['miss', b],
+        ['lockAcquired', b],
+        ['fetchError', b],
+      ]);
+    });
+
+    it('should emit events for getMany', async () => {
+      const [a, b] = [getKey(), getKey()];
+      const events = recordEvents(service);
+      await service.set(a, 'cached', { ttlMs: 1000 });
+
+      await service.getMany([a, b], DEFAULT_OPT, (keys) => keys);
+
+      expect(events.map(([name, { key }]) => [name, key])).toEqual([
+        ['hit', a],
+        ['miss', b],
+        ['lockAcquired', b],
+        ['fetchSuccess', b],
+      ]);
+    });
+
+    it('should stop calling removed listeners', async () => {
+      const listener = jest.fn();
+      const removeListener = service.on('miss', listener);
+      removeListener();
+
+      const key = getKey();
+      await service.get(key, DEFAULT_OPT, simpleFetch(key));
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should report listener errors to errorHandler', async () => {
+      await service.disconnect();
+      const errorHandler = jest.fn();
+      service = new MemolockCache({ errorHandler });
+      const error = new Error('listener');
+      service.on('miss', () => {
+        throw error;
+      });
+
+      const key = getKey();
+      expect(await service.get(key, DEFAULT_OPT, simpleFetch(key))).toBe(0);
+      expect(errorHandler).toHaveBeenCalledWith(error);
+    });
+
+    it('should ignore listener errors without an errorHandler', async () => {
+      service.on('miss', () => {
+        throw new Error('listener');
+      });
+
+      const key = getKey();
+      expect(await service.get(key, DEFAULT_OPT, simpleFetch(key))).toBe(0);
+    });
+  });
+
+  describe('Metrics', () => {
+    it('should render metrics for each client', async () => {
+      await service.disconnect();
+      service = new MemolockCache({ metrics: { buckets: [1] } });
+      const key = getKey();
+      const cache = service.new(
+        { ...DEFAULT_OPT, name: 'counter' },
+        simpleFetch(key),
+      );
+
+      await cache.get(key);
+      await cache.get(key);
+
+      const text = service.metrics();
+      expect(text).toContain(
+        'memolock_hits_total{client="counter",source="redis"} 1',
+      );
+      expect(text).toContain('memolock_misses_total{client="counter"} 1');
+      expect(text).toContain(
+        'memolock_fetch_duration_seconds_count{client="counter"} 1',
+      );
+    });
+
+    it('should accept true for the default buckets', async () => {
+      await service.disconnect();
+      service = new MemolockCache({ metrics: true });
+      const key = getKey();
+      await service.get(key, DEFAULT_OPT, simpleFetch(key));
+
+      expect(service.metrics()).toContain(
+        'memolock_fetch_duration_seconds_bucket{client="default",le="10"} 1',
+      );
+    });
+
+    it('should be empty without the metrics option', () => {
+      expect(service.metrics()).toBe('');
+    });
+  });
+
+  describe('Tracing', () => {
+    type RecordedSpan = {
+      name: string;
+      attributes: { [key: string]: SpanAttributeValue };
+      exceptions: Error[];
+      status?: { code: number; message?: string };
+      ended: boolean;
+    };
+    let spans: RecordedSpan[];
+
+    const tracer: MemolockTracer = {
+      startActiveSpan: (name, fn) => {
+        const span: RecordedSpan = {
+          name,
+          attributes: {},
+          exceptions: [],
+          ended: false,
+        };
+        spans.push(span);
+        return fn({
+          setAttribute: (key, value) => (span.attributes[key] = value),
+          recordException: (err) => span.exceptions.push(err),
+          setStatus: (status) => (span.status = status),
+          end: () => (span.ended = true),
+        }) as ReturnType<typeof fn>;
+      },
+    };
+
+    beforeEach(async () => {
+      spans = [];
+      await service.disconnect();
+      service = new MemolockCache({ tracer });
+    });
+
+    it('should trace a miss and its fetch', async () => {
+      const key = getKey();
+      const cache = service.new(
+        { ...DEFAULT_OPT, name: 'counter' },
+        simpleFetch(key),
+      );
+
+      await cache.get(key);
+
+      expect(spans).toEqual([
+        {
+          name: 'memolock.get',
+          attributes: {
+            'memolock.key': key,
+            'memolock.client': 'counter',
+            'memolock.attempt': 1,
+            'memolock.hit': false,
+            'memolock.lock_held': true,
+          },
+          exceptions: [],
+          ended: true,
+        },
+        {
+          name: 'memolock.fetch',
+          attributes: { 'memolock.keys': [key], 'memolock.client': 'counter' },
+          exceptions: [],
+          ended: true,
+        },
+      ]);
+    });
+
+    it('should trace hits', async () => {
+      const key = getKey();
+      await service.get(key, DEFAULT_OPT, simpleFetch(key));
+      spans = [];
+      await service.get(key, DEFAULT_OPT, simpleFetch(key));
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0].attributes['memolock.hit']).toBe(true);
+    });
+
+    it('should trace local hits', async () => {
+      const key = getKey();
+      const cache = service.new(
+        { ...DEFAULT_OPT, localCache: { maxSize: 10, ttlMs: 1000 } },
+        simpleFetch(key),
+      );
+      await cache.get(key);
+      spans = [];
+      await cache.get(key);
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0].attributes['memolock.hit']).toBe(true);
+    });
+
+    it('should trace waiting for another fetch and retries', async () => {
+      const key = getKey();
+      await redis.set(`${key}:lock`, 'other', 'PX', 50);
+
+      await service.get(
+        key,
+        { ...DEFAULT_OPT, lockTimeout: 30 },
+        simpleFetch(key),
+      );
+
+      const gets = spans.filter(({ name }) => name === 'memolock.get');
+      expect(gets.map(({ attributes }) => attributes)).toEqual([
+        expect.objectContaining({
+          'memolock.attempt': 1,
+          'memolock.lock_held': false,
+        }),
+        expect.objectContaining({ 'memolock.attempt': 2 }),
+        expect.objectContaining({ 'memolock.attempt': 3 }),
+      ]);
+      expect(gets[2].attributes['memolock.lock_held']).toBe(true);
+    });
+
+    it('should record fetch errors', async () => {
+      const key = getKey();
+      const error = new Error('fail');
+
+      await expect(
+        service.get(key, DEFAULT_OPT, () => {
+          throw error;
+        }),
+      ).rejects.toThrow('fail');
+
+      expect(spans.map(({ name }) => name)).toEqual([
+        'memolock.get',
+        'memolock.fetch',
+      ]);
+      spans.forEach((span) => {
+        expect(span.exceptions).toEqual([error]);
+        expect(span.status).toEqual({ code: 2, message: 'fail' });
+        expect(span.ended).toBe(true);
+      });
+    });
+
+    it('should trace sets and deletes', async () => {
+      const key = getKey();
+      await service.set(key, 1, { ttlMs: 1000 });
+      await service.delete(key);
+
+      expect(spans).toEqual([
+        {
+          name: 'memolock.set',
+          attributes: { 'memolock.key': key },
+          exceptions: [],
+          ended: true,
+        },
+        {
+          name: 'memolock.delete',
+          attributes: { 'memolock.key': key },
+          exceptions: [],
+          ended: true,
+        },
+      ]);
+    });
+  });
+
+  describe('decode failures stay local', () => {
+    const service = new MemolockCache();
+    const otherService = new MemolockCache();
+    afterAll(() =>
+      Promise.all([service.disconnect(), otherService.disconnect()]),
+    );
+
+    it('fetch that resolves to undefined does not crash the process', async () => {
+      let uncaught: Error | null = null;
+      const listener = (e: Error) => (uncaught = e);
+      process.once('uncaughtException', listener);
+
+      const KEY = 'bug:decode:undefined';
+      const opt = { ttlMs: 100, lockTimeout: 30, getKey: (k: string) => k };
+      const fetch = async () => {
+        await sleep(20);
+        return undefined;
+      };
+
+      const [v1, v2] = await Promise.all([
+        service.new(opt, fetch).get(KEY),
+        otherService.new(opt, fetch).get(KEY),
+      ]);
+      await sleep(10);
+      process.removeListener('uncaughtException', listener);
+
+      expect(uncaught).toBeNull();
+      expect(v1).toBeUndefined();
+      expect(v2).toBeNull();
+    });
+
+    it('should handle custom decode throwing errors locally', async () => {
+      let uncaught: Error | null = null;
+      const listener = (e: Error) => (uncaught = e);
+      process.once('uncaughtException', listener);
+
+      const KEY = 'bug:decode:throw';
+      const opt = {
+        ttlMs: 100,
+        lockTimeout: 30,
+        getKey: (k: string) => k,
+        decode: () => {
+          throw new Error('decode error');
+        },
+      };
+      const fetch = async () => {
+        await sleep(20);
+        return 'some-value';
+      };
+
+      const [res1, res2] = await Promise.allSettled([
+        service.new(opt, fetch).get(KEY),
+        otherService.new(opt, fetch).get(KEY),
+      ]);
+      await sleep(10);
+      process.removeListener('uncaughtException', listener);
+
+      expect(uncaught).toBeNull();
+
+      expect(res1.status).toBe('fulfilled');
+      if (res1.status === 'fulfilled') {
+        expect(res1.value).toBe('some-value');
+      }
+
+      expect(res2.status).toBe('rejected');
+      if (res2.status === 'rejected') {
+        expect(res2.reason).toEqual(new Error('decode error'));
+      }
+    });
+  });
+
+  describe('safeCall branch', () => {
+    it('invokes errorHandler if a user callback throws', async () => {
+      const errFn = jest.fn();
+      const service = new MemolockCache({ errorHandler: errFn });
+
+      // get direct access to the util helper
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const util = (service as any).redisUtil;
 
@@ -0,0 +1,199 @@
+import Redis from 'ioredis';
+import Redis5 from 'ioredis5';
+
+import MemolockCache from '../src';
+import { RedisAdapter } from '../src/adapter';
+import createIORedisAdapter from '../src/ioredis-adapter';
+import { sleep } from './test-util';
+
+describe('createIORedisAdapter', () => {
+  let redis: Redis.Redis;
+  let adapter: RedisAdapter;
+  let keyId = 0;
+  const getKey = () => `test:ioredis-adapter:${Date.now()}:${keyId++}`;
+
+  beforeEach(() => {
+    redis = new Redis();
+    adapter = createIORedisAdapter(redis);
+  });
+
+  afterEach(async () => {
+    await adapter.quit();
+  });
+
+  it('should tell clusters apart', () => {
+    const cluster = new Redis.Cluster([], { lazyConnect: true });
+
+    expect(adapter.clustered).toBe(false);
+    expect(createIORedisAdapter(cluster).clustered).toBe(true);
+    cluster.disconnect();
+  });
+
+  it('should only have sharded pub/sub on v5', () => {
+    const redis5 = new Redis5({ lazyConnect: true });
+    const adapter5 = createIORedisAdapter(redis5);
+
+    expect(adapter.spublish).toBeUndefined();
+    expect(adapter.ssubscribe).toBeUndefined();
+    expect(adapter5.spublish).toBeDefined();
+    expect(adapter5.ssubscribe).toBeDefined();
+    expect(adapter5.sunsubscribe).toBeDefined();
+    redis5.disconnect();
+  });
+
+  it('should only ssubscribe on Clusters with shardedSubscribers', () => {
+    const clusters = [
+      new Redis5.Cluster([], { lazyConnect: true }),
+      new Redis5.Cluster([], { lazyConnect: true, shardedSubscribers: true }),
+    ];
+    const [cluster, shardedCluster] = clusters.map((client) =>
+      createIORedisAdapter(client),
+    );
+
+    expect(cluster.spublish).toBeDefined();
+    expect(cluster.ssubscribe).toBeUndefined();
+    expect(cluster.sunsubscribe).toBeUndefined();
+    expect(shardedCluster.ssubscribe).toBeDefined();
+    expect(shardedCluster.sunsubscribe).toBeDefined();
+    clusters.forEach((client) => client.disconnect());
+  });
+
+  it('should set only missing keys with nx', async () => {
+    const key = getKey();
+
+    expect(await adapter.set(key, 'a', { px: 1000, nx: true })).toBe('OK');
+    expect(await adapter.set(key, 'b', { px: 1000, nx: true })).toBeNull();
+    expect(await adapter.set(key, 'c', { px: 1000 })).toBe('OK');
+    expect(await adapter.get(key)).toBe('c');
+    expect(await adapter.pttl(key)).toBeGreaterThan(0);
+  });
+
+  it('should read strings and Buffers', async () => {
+    const [a, b] = [getKey(), getKey()];
+    await adapter.set(a, Buffer.from([1, 2]), { px: 1000 });
+
+    expect(await adapter.getBuffer(a)).toEqual(Buffer.from([1, 2]));
+    expect(await adapter.mget([a, b])).toEqual(['\u0001\u0002', null]);
+    expect(await adapter.mgetBuffer([a, b])).toEqual([
+      Buffer.from([1, 2]),
+      null,
+    ]);
+    expect(await adapter.del(a)).toBe(1);
+  });
+
+  it('should run scripts and read sets', async () => {
+    const key = getKey();
+
+    expect(
+      await adapter.eval(
+        "redis.call('sadd', KEYS[1], ARGV[1], ARGV[2]) return ARGV[2]",
+        [key],
+        ['a', 2],
+      ),
+    ).toBe('2');
+    expect((await adapter.smembers(key)).sort()).toEqual(['2', 'a']);
+    await adapter.del(key);
+  });
+
+  it('should return the errors of failed commands in multis', async () => {
+    const key = getKey();
+
+    const replies = await adapter.multi([
+      { name: 'set', key, value: 'a', px: 1000 },
+      {
+        name: 'eval',
+        script: "return redis.call('incr', KEYS[1])",
+        keys: [key],
+        args: [],
+      },
+      { name: 'publish', channel: key, message: 'a' },
+    ]);
+
+    expect(replies[0]).toBe('OK');
+    expect(replies[1]).toBeInstanceOf(Error);
+    expect(replies[2]).toBe(0);
+  });
+
+  it('should pass on messages as Buffers', async () => {
+    const channel = getKey();
+    const listener = jest.fn();
+    const publisher = redis.duplicate();
+    adapter.onMessage(listener);
+
+    await adapter.subscribe(channel);
+    await publisher.publish(channel, 'message');
+    await sleep(20);
+    await adapter.unsubscribe(channel);
+    await publisher.quit();
+
+    expect(listener).toHaveBeenCalledWith(channel, Buffer.from('message'));
+  });
+
+  it('should pass on messages matching patterns', async () => {
+    const channel = getKey();
+    const listener = jest.fn();
+    const publisher = redis.duplicate();
+    adapter.onMessage(listener);
+
+    await adapter.psubscribe(`${channel}:*`);
+    await publisher.publish(`${channel}:a`, 'message');
+    await publisher.publish(channel, 'other');
+    await sleep(20);
+    await publisher.quit();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      `${channel}:a`,
+      Buffer.from('message'),
+    );
+  });
+
+  // Needs Redis 7
+  it('should pass on sharded messages on ioredis v5', async () => {
+    const channel = getKey();
+    const listener = jest.fn();
+    const [publisher, subscriber] = [new Redis5(), new Redis5()].map((client) =>
+      createIORedisAdapter(client),
+    );
+    subscriber.onMessage(listener);
+
+    await subscriber.ssubscribe?.(channel);
+    expect(await publisher.spublish?.(channel, 'a')).toBe(1);
+    expect(
+      await publisher.multi([{ name: 'spublish', channel, message: 'b' }]),
+    ).toEqual([1]);
+    await sleep(20);
+    await subscriber.sunsubscribe?.(channel);
+    await Promise.all([publisher.quit(), subscriber.quit()]);
+
+    expect(listener.mock.calls).toEqual([
+      [channel, Buffer.from('a')],
+      [channel, Buffer.from('b')],
+    ]);
+  });
+
+  it('should run MemolockCache on ioredis v5 clients', async () => {
+    const key = getKey();
+    const caches = [0, 1].map(
+      () =>
+        new MemolockCache({
+          redisClient: new Redis5(),
+          redisSubClient: new Redis5(),
+        }),
+    );
+    const fetch = jest.fn(async () => {
+      await sleep(50);
+      return 'value';
+    });
+    const opt = { ttlMs: 1000 };
+
+    const values = await Promise.all(
+      caches.map((cache) => cache.get(key, opt, fetch)),
+    );
+    expect(values).toEqual(['value', 'value']);
+    expect(await caches[0].get(key, opt, fetch)).toBe('value');
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await Promise.all(caches.map((cache) => cache.disconnect()));
+  });
+});
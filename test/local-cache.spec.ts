@@ -0,0 +1,56 @@
+import LocalCache from '../src/local-cache';
+import { sleep } from './test-util';
+
+describe('LocalCache', () => {
+  let cache: LocalCache;
+
+  beforeEach(() => {
+    cache = new LocalCache({ maxSize: 2, ttlMs: 100 });
+  });
+
+  it('should return stored values', () => {
+    cache.set('a', 1, 1000);
+    expect(cache.get('a')).toEqual({ value: 1 });
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('should store undefined values', () => {
+    cache.set('a', undefined, 1000);
+    expect(cache.get('a')).toEqual({ value: undefined });
+  });
+
+  it('should evict the least recently used entry', () => {
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 1000);
+    cache.get('a');
+    cache.set('c', 3, 1000);
+
+    expect(cache.get('a')).toEqual({ value: 1 });
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toEqual({ value: 3 });
+  });
+
+  it('should expire entries after its own ttl', async () => {
+    cache.set('a', 1, 1000);
+    await sleep(120);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should cap ttl to the remaining ttl passed in', async () => {
+    cache.set('a', 1, 30);
+    await sleep(50);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should not store values with no ttl left', () => {
+    cache.set('a', 1, 1000);
+    cache.set('a', 2, 0);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should delete entries', () => {
+    cache.set('a', 1, 1000);
+    cache.delete('a');
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,309 @@
+import MemolockCache, { MemoryRedis } from '../src';
+import { RedisAdapter } from '../src/adapter';
+import { getChannel } from '../src/keys';
+import {
+  BUMP_GENERATION_SCRIPT,
+  INVALIDATE_TAGS_SCRIPT,
+  RELEASE_LOCK_SCRIPT,
+  RENEW_LOCK_SCRIPT,
+  TAG_KEY_SCRIPT,
+} from '../src/scripts';
+import { sleep } from './test-util';
+
+describe('MemoryRedis', () => {
+  let redis: MemoryRedis;
+  let client: RedisAdapter;
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    redis = new MemoryRedis({ now: () => now });
+    client = redis.createClient();
+  });
+
+  describe('Commands', () => {
+    it('should set only missing keys with nx', async () => {
+      expect(await client.set('a', 'a', { px: 1000, nx: true })).toBe('OK');
+      expect(await client.set('a', 'b', { px: 1000, nx: true })).toBeNull();
+      expect(await client.set('a', 'c', { px: 1000 })).toBe('OK');
+      expect(await client.get('a')).toBe('c');
+      expect(await client.pttl('a')).toBe(1000);
+    });
+
+    it('should read strings and Buffers', async () => {
+      await client.set('a', Buffer.from([1, 2]), { px: 1000 });
+
+      expect(await client.getBuffer('a')).toEqual(Buffer.from([1, 2]));
+      expect(await client.getBuffer('b')).toBeNull();
+      expect(await client.mget(['a', 'b'])).toEqual(['\u0001\u0002', null]);
+      expect(await client.mgetBuffer(['a', 'b'])).toEqual([
+        Buffer.from([1, 2]),
+        null,
+      ]);
+      expect(await client.del('a')).toBe(1);
+      expect(await client.del('a')).toBe(0);
+      expect(await client.pttl('a')).toBe(-2);
+    });
+
+    it('should share keys between clients', async () => {
+      await client.set('a', 'a', { px: 1000 });
+
+      expect(await redis.createClient().get('a')).toBe('a');
+    });
+
+    it('should reject commands on the wrong type of key', async () => {
+      await client.set('a', 'a', { px: 1000 });
+      await client.eval(TAG_KEY_SCRIPT, ['b'], ['a', 1000]);
+
+      await expect(client.smembers('a')).rejects.toThrow('WRONGTYPE');
+      await expect(client.get('b')).rejects.toThrow('WRONGTYPE');
+      await expect(
+        client.eval(TAG_KEY_SCRIPT, ['a'], ['a', 1000]),
+      ).rejects.toThrow('WRONGTYPE');
+      await expect(
+        client.eval(BUMP_GENERATION_SCRIPT, ['a'], []),
+      ).rejects.toThrow('not an integer');
+      expect(await client.mget(['a', 'b'])).toEqual(['a', null]);
+    });
+
+    it("should run memolock's scripts", async () => {
+      await client.set('lock', 'token', { px: 1000 });
+      const renew = (key: string, token: string) =>
+        client.eval(RENEW_LOCK_SCRIPT, [key], [token, 2000, 'a', 'a']);
+      const release = (token: string) =>
+        client.eval(RELEASE_LOCK_SCRIPT, ['lock'], [token]);
+
+      expect(await renew('lock', 'other')).toBe(0);
+      expect(await renew('missing', 'token')).toBe(0);
+      expect(await renew('lock', 'token')).toBe(1);
+      expect(await client.pttl('lock')).toBe(2000);
+      expect(await release('other')).toBe(0);
+      expect(await release('token')).toBe(1);
+      expect(await release('token')).toBe(0);
+
+      await client.eval(TAG_KEY_SCRIPT, ['tag'], ['a', 2000]);
+      await client.eval(TAG_KEY_SCRIPT, ['tag'], ['a', 1000]);
+      await client.eval(TAG_KEY_SCRIPT, ['tag'], ['b', 3000]);
+      expect((await client.smembers('tag')).sort()).toEqual(['a', 'b']);
+      expect(await client.pttl('tag')).toBe(3000);
+      await client.set('a', 'a', { px: 1000 });
+      expect(
+        await client.eval(INVALIDATE_TAGS_SCRIPT, ['tag', 'missing'], []),
+      ).toEqual([1, ['a', 'b']]);
+      expect(await client.smembers('tag')).toEqual([]);
+
+      expect(await client.eval(BUMP_GENERATION_SCRIPT, ['gen'], [])).toBe(1);
+      expect(await client.eval(BUMP_GENERATION_SCRIPT, ['gen'], [])).toBe(2);
+    });
+
+    it('should only run memolock scripts', async () => {
+      await expect(client.eval('return 1', [], [])).rejects.toThrow(
+        "MemoryRedis can only run memolock's own scripts",
+      );
+    });
+
+    it('should return the errors of failed commands in multis', async () => {
+      await client.set('a', 'a', { px: 1000 });
+
+      const replies = await client.multi([
+        { name: 'set', key: 'b', value: 'b', px: 1000, nx: true },
+        { name: 'eval', script: BUMP_GENERATION_SCRIPT, keys: ['a'], args: [] },
+        { name: 'publish', channel: 'a', message: 'a' },
+      ]);
+
+      expect(replies[0]).toBe('OK');
+      expect(replies[1]).toBeInstanceOf(Error);
+      expect(replies[2]).toBe(0);
+    });
+
+    it('should deliver messages to subscribed clients', async () => {
+      const subscriber = redis.createClient();
+      const listener = jest.fn();
+      subscriber.onMessage(listener);
+
+      await subscriber.subscribe('a');
+      expect(await client.publish('a', 'message')).toBe(1);
+      await sleep(0);
+      expect(listener).toHaveBeenCalledWith('a', Buffer.from('message'));
+
+      await subscriber.unsubscribe('a');
+      expect(await client.publish('a', 'message')).toBe(0);
+      await subscriber.subscribe('a');
+      await subscriber.quit();
+      expect(await client.publish('a', 'message')).toBe(0);
+      await sleep(0);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deliver messages on channels matching patterns', async () => {
+      const subscriber = redis.createClient();
+      const listener = jest.fn();
+      subscriber.onMessage(listener);
+
+      await subscriber.psubscribe('a*');
+      await subscriber.psubscribe('b?\\*');
+      await subscriber.subscribe('ab');
+      expect(await client.publish('ab', '1')).toBe(2);
+      expect(await client.publish('bc*', '2')).toBe(1);
+      expect(await client.publish('bcd', '3')).toBe(0);
+      expect(await client.publish('b.*', '4')).toBe(1);
+      await sleep(0);
+
+      expect(listener.mock.calls).toEqual([
+        ['ab', Buffer.from('1')],
+        ['ab', Buffer.from('1')],
+        ['bc*', Buffer.from('2')],
+        ['b.*', Buffer.from('4')],
+      ]);
+    });
+
+    it('should drop messages that a value is ready', async () => {
+      const listener = jest.fn();
+      client.onMessage(listener);
+      await client.subscribe(getChannel('a'));
+
+      redis.dropMessages('a', 2);
+      redis.dropMessages('a');
+      for (const message of ['1', '2', '3', '4']) {
+        expect(await client.publish(getChannel('a'), message)).toBe(1);
+      }
+      await sleep(0);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(getChannel('a'), Buffer.from('4'));
+    });
+  });
+
+  describe('Clock', () => {
+    it('should expire keys when time is advanced', async () => {
+      await client.set('a', 'a', { px: 1000 });
+      await client.eval(BUMP_GENERATION_SCRIPT, ['b'], []);
+
+      redis.advanceTime(999);
+      expect(await client.pttl('a')).toBe(1);
+      redis.advanceTime(1);
+      expect(await client.get('a')).toBeNull();
+      expect(await client.pttl('b')).toBe(-1);
+    });
+
+    it('should use the given clock', async () => {
+      await client.set('a', 'a', { px: 1000 });
+      now = 1000;
+
+      expect(await client.get('a')).toBeNull();
+    });
+
+    it('should default to the real clock', async () => {
+      client = new MemoryRedis().createClient();
+      await client.set('a', 'a', { px: 10 });
+      await sleep(20);
+
+      expect(await client.get('a')).toBeNull();
+    });
+  });
+
+  describe('MemolockCache', () => {
+    const opt = { ttlMs: 1000, lockTimeout: 50, maxAttempts: 2 };
+    let caches: MemolockCache[];
+    let keyId = 0;
+    const getKey = () => `test:memory-redis:${keyId++}`;
+
+    beforeEach(() => {
+      caches = [0, 1].map(
+        () =>
+          new MemolockCache({
+            redisClient: redis.createClient(),
+            redisSubClient: redis.createClient(),
+          }),
+      );
+    });
+
+    afterEach(async () => {
+      await Promise.all(caches.map((cache) => cache.disconnect()));
+    });
+
+    it('should fetch once across processes', async () => {
+      const key = getKey();
+      const fetch = jest.fn(async () => {
+        await sleep(20);
+        return 'value';
+      });
+
+      const values = await Promise.all(
+        caches.map((cache) => cache.get(key, opt, fetch)),
+      );
+
+      expect(values).toEqual(['value', 'value']);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      redis.advanceTime(1000);
+      expect(await caches[0].get(key, opt, fetch)).toBe('value');
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run tags, renewals and invalidateAll', async () => {
+      const key = getKey();
+      const fetch = jest.fn(async () => {
+        await sleep(60);
+        return 'value';
+      });
+      const client = caches[0].new(
+        { ...opt, name: key, getKey: (id: string) => id },
+        fetch,
+      );
+
+      await Promise.all([
+        caches[0].get(key, { ...opt, tags: ['tag'], renewLock: true }, fetch),
+        caches[1].get(key, opt, fetch),
+      ]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(await caches[0].invalidateTags(['tag'])).toBe(1);
+
+      await client.get('a');
+      await client.invalidateAll();
+      await client.get('a');
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up on a stuck lock holder', async () => {
+      const key = getKey();
+      const fetch = jest.fn(async () => 'value');
+      redis.holdLock(key);
+
+      await expect(caches[0].get(key, opt, fetch)).rejects.toThrow(
+        'Never received message that key was unlocked.',
+      );
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should take a stuck lock once it expires', async () => {
+      const key = getKey();
+      const fetch = jest.fn(async () => 'value');
+      redis.holdLock(key, 1000);
+
+      const value = caches[0].get(key, opt, fetch);
+      await sleep(10);
+      redis.advanceTime(1000);
+
+      expect(await value).toBe('value');
+    });
+
+    it('should time out waiting when a message is dropped', async () => {
+      const key = getKey();
+      const retry = jest.fn();
+      const fetch = jest.fn(async () => {
+        await sleep(20);
+        return 'value';
+      });
+      caches[1].on('retry', retry);
+      redis.dropMessages(key);
+
+      const values = await Promise.all(
+        caches.map((cache) => cache.get(key, opt, fetch)),
+      );
+
+      expect(values).toEqual(['value', 'value']);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(retry).toHaveBeenCalledTimes(1);
+    });
+  });
+});
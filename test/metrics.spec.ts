@@ -0,0 +1,93 @@
+import { MemolockEvents } from '../src';
+import MetricsCollector from '../src/metrics';
+
+describe('MetricsCollector', () => {
+  let listeners: { [event: string]: (event: unknown) => void };
+  const emit = <E extends keyof MemolockEvents>(
+    event: E,
+    payload: MemolockEvents[E],
+  ) => listeners[event](payload);
+  const source = {
+    on: (event: string, listener: (event: never) => void) => {
+      listeners[event] = listener as (event: unknown) => void;
+    },
+  };
+
+  beforeEach(() => {
+    listeners = {};
+  });
+
+  it('should count events by client', () => {
+    const collector = new MetricsCollector(source);
+    emit('hit', { key: 'a', client: 'users', source: 'redis' });
+    emit('hit', { key: 'b', client: 'users', source: 'redis' });
+    emit('hit', { key: 'a', client: 'users', source: 'local' });
+    emit('miss', { key: 'a', client: 'posts' });
+    emit('retry', { key: 'a', client: 'posts', attempt: 2 });
+    emit('waitTimeout', { key: 'a', client: 'posts', attempt: 1 });
+    emit('decodeError', { key: 'a', client: 'posts', error: null });
+    emit('maxAttemptsExceeded', { key: 'a', client: 'posts', attempts: 3 });
+
+    const lines = collector.render().split('\n');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '# HELP memolock_hits_total Values found in the local cache or Redis.',
+        '# TYPE memolock_hits_total counter',
+        'memolock_hits_total{client="users",source="redis"} 2',
+        'memolock_hits_total{client="users",source="local"} 1',
+        'memolock_misses_total{client="posts"} 1',
+        'memolock_retries_total{client="posts"} 1',
+        'memolock_wait_timeouts_total{client="posts"} 1',
+        'memolock_decode_errors_total{client="posts"} 1',
+        'memolock_max_attempts_exceeded_total{client="posts"} 1',
+      ]),
+    );
+  });
+
+  it('should render cumulative histograms in seconds', () => {
+    const collector = new MetricsCollector(source, { buckets: [0.1, 1] });
+    emit('fetchSuccess', { key: 'a', client: 'users', durationMs: 50 });
+    emit('fetchError', {
+      key: 'a',
+      client: 'users',
+      durationMs: 500,
+      error: null,
+    });
+    emit('lockWaitEnd', { key: 'a', client: 'users', durationMs: 2000 });
+
+    const text = collector.render();
+    expect(text).toContain(
+      [
+        '# TYPE memolock_fetch_duration_seconds histogram',
+        'memolock_fetch_duration_seconds_bucket{client="users",le="0.1"} 1',
+        'memolock_fetch_duration_seconds_bucket{client="users",le="1"} 2',
+        'memolock_fetch_duration_seconds_bucket{client="users",le="+Inf"} 2',
+        'memolock_fetch_duration_seconds_sum{client="users"} 0.55',
+        'memolock_fetch_duration_seconds_count{client="users"} 2',
+      ].join('\n'),
+    );
+    expect(text).toContain('memolock_fetch_errors_total{client="users"} 1');
+    expect(text).toContain(
+      'memolock_lock_wait_duration_seconds_bucket{client="users",le="1"} 0',
+    );
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('should use the default buckets', () => {
+    const collector = new MetricsCollector(source);
+    emit('lockWaitEnd', { key: 'a', client: 'users', durationMs: 5 });
+
+    expect(collector.render()).toContain(
+      'memolock_lock_wait_duration_seconds_bucket{client="users",le="0.005"} 1',
+    );
+  });
+
+  it('should escape label values', () => {
+    const collector = new MetricsCollector(source);
+    emit('miss', { key: 'a', client: 'a "quoted"\\name\n' });
+
+    expect(collector.render()).toContain(
+      'memolock_misses_total{client="a \\"quoted\\"\\\\name\\n"} 1',
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { createClient } from 'redis';
+
+import MemolockCache, { createNodeRedisAdapter } from '../src';
+import { RedisAdapter } from '../src/adapter';
+import { sleep } from './test-util';
+
+describe('createNodeRedisAdapter', () => {
+  let client: ReturnType<typeof createClient>;
+  let subscriber: ReturnType<typeof createClient>;
+  let adapter: RedisAdapter;
+  let subAdapter: RedisAdapter;
+  let keyId = 0;
+  const getKey = () => `test:node-redis-adapter:${Date.now()}:${keyId++}`;
+
+  beforeEach(async () => {
+    client = createClient();
+    subscriber = client.duplicate();
+    await Promise.all([client.connect(), subscriber.connect()]);
+    adapter = createNodeRedisAdapter(client);
+    subAdapter = createNodeRedisAdapter(subscriber);
+  });
+
+  afterEach(async () => {
+    await Promise.all([adapter.quit(), subAdapter.quit()]);
+  });
+
+  it('should never be clustered', () => {
+    expect(adapter.clustered).toBe(false);
+  });
+
+  it('should set only missing keys with nx', async () => {
+    const key = getKey();
+
+    expect(await adapter.set(key, 'a', { px: 1000, nx: true })).toBe('OK');
+    expect(await adapter.set(key, 'b', { px: 1000, nx: true })).toBeNull();
+    expect(await adapter.set(key, 'c', { px: 1000 })).toBe('OK');
+    expect(await adapter.get(key)).toBe('c');
+    expect(await adapter.pttl(key)).toBeGreaterThan(0);
+  });
+
+  it('should read strings and Buffers', async () => {
+    const [a, b] = [getKey(), getKey()];
+    await adapter.set(a, Buffer.from([1, 2]), { px: 1000 });
+
+    expect(await adapter.getBuffer(a)).toEqual(Buffer.from([1, 2]));
+    expect(await adapter.mget([a, b])).toEqual(['\u0001\u0002', null]);
+    expect(await adapter.mgetBuffer([a, b])).toEqual([
+      Buffer.from([1, 2]),
+      null,
+    ]);
+    expect(await adapter.del(a)).toBe(1);
+  });
+
+  it('should run scripts and read sets', async () => {
+    const key = getKey();
+
+    expect(
+      await adapter.eval(
+        "redis.call('sadd', KEYS[1], ARGV[1], ARGV[2]) return ARGV[2]",
+        [key],
+        ['a', 2],
+      ),
+    ).toBe('2');
+    expect((await adapter.smembers(key)).sort()).toEqual(['2', 'a']);
+    await adapter.del(key);
+  });
+
+  it('should run multis', async () => {
+    const key = getKey();
+
+    expect(
+      await adapter.multi([
+        { name: 'set', key, value: 'a', px: 1000 },
+        { name: 'set', key, value: 'b', px: 1000, nx: true },
+        {
+          name: 'eval',
+          script: "return redis.call('get', KEYS[1])",
+          keys: [key],
+          args: [],
+        },
+        { name: 'publish', channel: key, message: 'a' },
+      ]),
+    ).toEqual(['OK', null, 'a', 0]);
+  });
+
+  it('should return the errors of failed commands in multis', async () => {
+    const key = getKey();
+
+    const replies = await adapter.multi([
+      { name: 'set', key, value: 'a', px: 1000 },
+      {
+        name: 'eval',
+        script: "return redis.call('incr', KEYS[1])",
+        keys: [key],
+        args: [],
+      },
+      { name: 'publish', channel: key, message: 'a' },
+    ]);
+
+    expect(replies[0]).toBe('OK');
+    expect(replies[1]).toBeInstanceOf(Error);
+    expect(replies[2]).toBe(0);
+  });
+
+  it('should still reject multis that fail as a whole', async () => {
+    const closed = createNodeRedisAdapter(createClient());
+
+    await expect(
+      closed.multi([{ name: 'publish', channel: getKey(), message: 'a' }]),
+    ).rejects.toThrow('The client is closed');
+  });
+
+  it('should pass on messages as Buffers', async () => {
+    const channel = getKey();
+    const listener = jest.fn();
+    subAdapter.onMessage(listener);
+
+    await subAdapter.subscribe(channel);
+    await adapter.publish(channel, 'message');
+    await sleep(20);
+    await subAdapter.unsubscribe(channel);
+
+    expect(listener).toHaveBeenCalledWith(channel, Buffer.from('message'));
+  });
+
+  it('should pass on messages matching patterns', async () => {
+    const channel = getKey();
+    const listener = jest.fn();
+    subAdapter.onMessage(listener);
+
+    await subAdapter.psubscribe(`${channel}:*`);
+    await adapter.publish(`${channel}:a`, 'message');
+    await adapter.publish(channel, 'other');
+    await sleep(20);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      `${channel}:a`,
+      Buffer.from('message'),
+    );
+  });
+
+  it('should run MemolockCache', async () => {
+    const key = getKey();
+    const createCache = async () => {
+      const client = createClient();
+      const subscriber = client.duplicate();
+      await Promise.all([client.connect(), subscriber.connect()]);
+      return new MemolockCache({
+        redisClient: createNodeRedisAdapter(client),
+        redisSubClient: createNodeRedisAdapter(subscriber),
+      });
+    };
+    const caches = await Promise.all([createCache(), createCache()]);
+    const fetch = jest.fn(async () => {
+      await sleep(50);
+      return Buffer.from([1, 2]);
+    });
+    const opt = {
+      ttlMs: 1000,
+      binary: true as const,
+      encode: (data: Buffer) => data,
+      decode: (data: Buffer) => data,
+    };
+
+    const values = await Promise.all(
+      caches.map((cache) => cache.get(key, opt, fetch)),
+    );
+    expect(values).toEqual([Buffer.from([1, 2]), Buffer.from([1, 2])]);
+    expect(await caches[0].get(key, opt, fetch)).toEqual(Buffer.from([1, 2]));
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await Promise.all(caches.map((cache) => cache.disconnect()));
+  });
+});
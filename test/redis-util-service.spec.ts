@@ -1,7 +1,10 @@
 import Redis from 'ioredis';
 
-import RedisUtilService from '../src/redis-util';
-import { sleep } from './test-util';
+import { RedisAdapter } from '../src/adapter';
+import { fetchFailure, heartbeat } from '../src/envelope';
+import createIORedisAdapter from '../src/ioredis-adapter';
+import RedisUtilService, { RemoteFetchError } from '../src/redis-util';
+import { sleep, withShardedPubSub } from './test-util';
 
 describe('RedisUtilService', () => {
   let service: RedisUtilService;
@@ -11,7 +14,10 @@ describe('RedisUtilService', () => {
   beforeEach(() => {
     redisSubClient = new Redis();
     errorHandler = jest.fn();
-    service = new RedisUtilService(redisSubClient, errorHandler);
+    service = new RedisUtilService(
+      createIORedisAdapter(redisSubClient),
+      errorHandler,
+    );
   });
 
   afterEach(async () => {
@@ -39,7 +45,7 @@ describe('RedisUtilService', () => {
     console.error = jest.fn();
 
     await redisSubClient.quit();
-    service = new RedisUtilService(redisSubClient);
+    service = new RedisUtilService(createIORedisAdapter(redisSubClient));
 
     service.subscribeOnce('random', {
       timeoutMs: 200,
@@ -89,4 +95,366 @@ describe('RedisUtilService', () => {
 
     expect(errorHandler).toHaveBeenCalledTimes(1);
   });
+
+  it('should extend timeouts when a heartbeat is received', async () => {
+    const redis = new Redis();
+    const onSuccess = jest.fn();
+    const onError = jest.fn();
+    service.subscribeOnce('heartbeat', {
+      timeoutMs: 100,
+      decode: (message: string) => message,
+      onSuccess,
+      onError,
+    });
+
+    await sleep(60);
+    await redis.publish('heartbeat', heartbeat(150));
+    await sleep(100);
+    expect(onError).not.toHaveBeenCalled();
+
+    await redis.publish('heartbeat', 'value');
+    await sleep(20);
+    expect(onSuccess).toHaveBeenCalledWith('value');
+    expect(onError).not.toHaveBeenCalled();
+    await redis.quit();
+  });
+
+  it('should still time out after a heartbeat expires', async () => {
+    const redis = new Redis();
+    const onError = jest.fn();
+    service.subscribeOnce('heartbeat-expire', {
+      timeoutMs: 50,
+      decode: (message: string) => message,
+      onSuccess: () => null,
+      onError,
+    });
+
+    await sleep(30);
+    await redis.publish('heartbeat-expire', heartbeat(50));
+    await sleep(100);
+
+    expect(onError).toHaveBeenCalledWith(true);
+    expect(service['subInfo']['heartbeat-expire']).toBeUndefined();
+    await redis.quit();
+  });
+
+  it('should keep calling listeners for every message', async () => {
+    const redis = new Redis();
+    const listener = jest.fn();
+    const otherListener = jest.fn();
+    service.subscribe('listen', listener);
+    service.subscribe('listen', otherListener);
+    await sleep(50);
+
+    await redis.publish('listen', 'first');
+    await redis.publish('listen', 'second');
+    await sleep(20);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenLastCalledWith('second');
+    expect(otherListener).toHaveBeenCalledTimes(2);
+    await redis.quit();
+  });
+
+  it('should send listener errors to the error handler', async () => {
+    const redis = new Redis();
+    service.subscribe('listen-throw', () => {
+      throw new Error('listener error');
+    });
+    await sleep(50);
+
+    await redis.publish('listen-throw', 'message');
+    await sleep(20);
+
+    expect(errorHandler).toHaveBeenCalledWith(new Error('listener error'));
+    await redis.quit();
+  });
+
+  it('should route fetch failures to onError', async () => {
+    const redis = new Redis();
+    const onSuccess = jest.fn();
+    const onError = jest.fn();
+    service.subscribeOnce('failure', {
+      timeoutMs: 1000,
+      decode: (message: string) => message,
+      onSuccess,
+      onError,
+    });
+    await sleep(50);
+
+    await redis.publish('failure', fetchFailure(new TypeError('bad fetch')));
+    await sleep(20);
+
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(1);
+    const [timeout, err] = onError.mock.calls[0];
+    expect(timeout).toBe(false);
+    expect(err).toBeInstanceOf(RemoteFetchError);
+    expect(err.message).toBe('bad fetch');
+    expect(err.originalName).toBe('TypeError');
+    expect(service['subInfo']['failure']).toBeUndefined();
+    await redis.quit();
+  });
+
+  describe('channelPattern', () => {
+    let adapter: RedisAdapter;
+
+    beforeEach(() => {
+      adapter = createIORedisAdapter(redisSubClient);
+      service = new RedisUtilService(
+        adapter,
+        errorHandler,
+        'pubsub',
+        'pattern:*',
+      );
+    });
+
+    it('should wait on every channel through one pattern', async () => {
+      const redis = new Redis();
+      const subscribe = jest.spyOn(adapter, 'subscribe');
+      const unsubscribe = jest.spyOn(adapter, 'unsubscribe');
+      const psubscribe = jest.spyOn(adapter, 'psubscribe');
+      const onSuccess = [jest.fn(), jest.fn(), jest.fn()];
+      ['pattern:a', 'pattern:b', 'pattern:a'].forEach((channel, i) =>
+        service.subscribeOnce(channel, {
+          timeoutMs: 1000,
+          decode: (message: string) => message,
+          onSuccess: onSuccess[i],
+          onError: () => null,
+        }),
+      );
+      await sleep(50);
+
+      await redis.publish('pattern:a', 'a');
+      await redis.publish('pattern:b', 'b');
+      await sleep(20);
+      expect(onSuccess[0]).toHaveBeenCalledWith('a');
+      expect(onSuccess[1]).toHaveBeenCalledWith('b');
+      expect(onSuccess[2]).toHaveBeenCalledWith('a');
+      expect(psubscribe).toHaveBeenCalledTimes(1);
+      expect(subscribe).not.toHaveBeenCalled();
+      expect(unsubscribe).not.toHaveBeenCalled();
+      await redis.quit();
+    });
+
+    it('should psubscribe again after failing to', async () => {
+      const psubscribe = jest
+        .spyOn(adapter, 'psubscribe')
+        .mockRejectedValueOnce(new Error('psubscribe failed'));
+      const onError = jest.fn();
+      const subscribeOnce = (channel: string) =>
+        service.subscribeOnce(channel, {
+          timeoutMs: 50,
+          decode: (message: string) => message,
+          onSuccess: () => null,
+          onError,
+        });
+
+      subscribeOnce('pattern:a');
+      await sleep(20);
+      expect(onError).toHaveBeenCalledWith(
+        false,
+        new Error('psubscribe failed'),
+      );
+
+      subscribeOnce('pattern:b');
+      await sleep(100);
+      expect(psubscribe).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenLastCalledWith(true);
+    });
+  });
+
+  describe('sharded', () => {
+    const waitOnce = (channel: string, onSuccess: jest.Mock) =>
+      service.subscribeOnce(channel, {
+        timeoutMs: 1000,
+        decode: (message: string) => message,
+        onSuccess,
+        onError: () => null,
+      });
+
+    it('should wait with SSUBSCRIBE', async () => {
+      const redis = new Redis();
+      const adapter = withShardedPubSub(createIORedisAdapter(redisSubClient));
+      const subscribe = jest.spyOn(adapter, 'subscribe');
+      const onSuccess = jest.fn();
+      service = new RedisUtilService(
+        adapter,
+        errorHandler,
+        'pubsub',
+        undefined,
+        true,
+      );
+
+      waitOnce('sharded', onSuccess);
+      await sleep(50);
+      await redis.publish('sharded', 'a');
+      await sleep(20);
+
+      expect(onSuccess).toHaveBeenCalledWith('a');
+      expect(adapter.ssubscribe).toHaveBeenCalledWith('sharded');
+      expect(adapter.sunsubscribe).toHaveBeenCalledWith('sharded');
+      expect(subscribe).not.toHaveBeenCalled();
+      await redis.quit();
+    });
+
+    it('should subscribe if the adapter has no SSUBSCRIBE', async () => {
+      const redis = new Redis();
+      const adapter = createIORedisAdapter(redisSubClient);
+      const subscribe = jest.spyOn(adapter, 'subscribe');
+      const unsubscribe = jest.spyOn(adapter, 'unsubscribe');
+      const onSuccess = jest.fn();
+      service = new RedisUtilService(
+        adapter,
+        errorHandler,
+        'pubsub',
+        undefined,
+        true,
+      );
+
+      waitOnce('sharded', onSuccess);
+      await sleep(50);
+      await redis.publish('sharded', 'a');
+      await sleep(20);
+
+      expect(onSuccess).toHaveBeenCalledWith('a');
+      expect(subscribe).toHaveBeenCalledWith('sharded');
+      expect(unsubscribe).toHaveBeenCalledWith('sharded');
+      await redis.quit();
+    });
+  });
+
+  describe('recheck', () => {
+    beforeEach(() => {
+      service = new RedisUtilService(
+        createIORedisAdapter(redisSubClient),
+        errorHandler,
+        'recheck',
+      );
+    });
+
+    it('should resolve with a value published before subscribing', async () => {
+      const onSuccess = jest.fn();
+      service.subscribeOnce('recheck-ready', {
+        timeoutMs: 1000,
+        decode: (message: string) => message,
+        onSuccess,
+        onError: () => null,
+        recheck: async () => 'value',
+      });
+      await sleep(50);
+
+      expect(onSuccess).toHaveBeenCalledWith('value');
+      expect(service['subInfo']['recheck-ready']).toBeUndefined();
+    });
+
+    it('should recheck once for every waiter on a channel', async () => {
+      const onSuccess = [jest.fn(), jest.fn()];
+      const recheck = jest.fn(async () => 'value');
+      onSuccess.forEach((callback) =>
+        service.subscribeOnce('recheck-shared', {
+          timeoutMs: 1000,
+          decode: (message: string) => message,
+          onSuccess: callback,
+          onError: () => null,
+          recheck,
+        }),
+      );
+      await sleep(50);
+
+      expect(recheck).toHaveBeenCalledTimes(1);
+      expect(onSuccess[0]).toHaveBeenCalledWith('value');
+      expect(onSuccess[1]).toHaveBeenCalledWith('value');
+    });
+
+    it('should keep waiting if the value is not ready', async () => {
+      const redis = new Redis();
+      const onSuccess = jest.fn();
+      const recheck = jest.fn(async () => null);
+      service.subscribeOnce('recheck-waiting', {
+        timeoutMs: 1000,
+        decode: (message: string) => message,
+        onSuccess,
+        onError: () => null,
+        recheck,
+      });
+      await sleep(50);
+      expect(recheck).toHaveBeenCalledTimes(1);
+      expect(onSuccess).not.toHaveBeenCalled();
+
+      await redis.publish('recheck-waiting', 'value');
+      await sleep(20);
+      expect(onSuccess).toHaveBeenCalledWith('value');
+      await redis.quit();
+    });
+
+    it('should resolve once if the message arrives first', async () => {
+      const redis = new Redis();
+      const onSuccess = jest.fn();
+      service.subscribeOnce('recheck-late', {
+        timeoutMs: 1000,
+        decode: (message: string) => message,
+        onSuccess,
+        onError: () => null,
+        recheck: async () => {
+          await sleep(50);
+          return 'recheck';
+        },
+      });
+      await sleep(20);
+
+      await redis.publish('recheck-late', 'message');
+      await sleep(60);
+      expect(onSuccess).toHaveBeenCalledTimes(1);
+      expect(onSuccess).toHaveBeenCalledWith('message');
+      await redis.quit();
+    });
+
+    it('should time out if the recheck fails', async () => {
+      const onError = jest.fn();
+      service.subscribeOnce('recheck-fails', {
+        timeoutMs: 50,
+        decode: (message: string) => message,
+        onSuccess: () => null,
+        onError,
+        recheck: async () => {
+          throw new Error('recheck failed');
+        },
+      });
+      await sleep(100);
+
+      expect(errorHandler).toHaveBeenCalledWith(new Error('recheck failed'));
+      expect(onError).toHaveBeenCalledWith(true);
+    });
+
+    it('should fail at once if nothing will be published', async () => {
+      const onError = jest.fn();
+      service.subscribeOnce('recheck-gone', {
+        timeoutMs: 1000,
+        decode: (message: string) => message,
+        onSuccess: () => null,
+        onError,
+        recheck: async () => false,
+      });
+      await sleep(50);
+
+      expect(onError).toHaveBeenCalledWith(false, undefined);
+      expect(service['subInfo']['recheck-gone']).toBeUndefined();
+    });
+
+    it('should not recheck in pubsub mode', async () => {
+      service = new RedisUtilService(createIORedisAdapter(redisSubClient));
+      const recheck = jest.fn(async () => 'value');
+      service.subscribeOnce('recheck-off', {
+        timeoutMs: 50,
+        decode: (message: string) => message,
+        onSuccess: () => null,
+        onError: () => null,
+        recheck,
+      });
+      await sleep(100);
+
+      expect(recheck).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1 +1,23 @@
+import type { RedisAdapter, RedisCommand } from '../src/adapter';
+
 export const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+// Stands in for sharded pub/sub with regular pub/sub, since it needs Redis 7
+export function withShardedPubSub(adapter: RedisAdapter) {
+  return {
+    ...adapter,
+    spublish: jest.fn(adapter.publish),
+    ssubscribe: jest.fn(adapter.subscribe),
+    sunsubscribe: jest.fn(adapter.unsubscribe),
+    multi: jest.fn<ReturnType<RedisAdapter['multi']>, [RedisCommand[]]>(
+      (commands) =>
+        adapter.multi(
+          commands.map((command) =>
+            command.name === 'spublish'
+              ? { ...command, name: 'publish' }
+              : command,
+          ),
+        ),
+    ),
+  };
+}
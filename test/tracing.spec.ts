@@ -0,0 +1,42 @@
+import { MemolockSpan, withSpan } from '../src/tracing';
+
+describe('withSpan', () => {
+  const span: MemolockSpan = {
+    setAttribute: jest.fn(),
+    recordException: jest.fn(),
+    setStatus: jest.fn(),
+    end: jest.fn(),
+  };
+  const tracer = {
+    startActiveSpan: jest.fn((name, fn) => fn(span)),
+  };
+
+  it('should just run fn without a tracer', async () => {
+    const fn = jest.fn(async (span?: MemolockSpan) => span);
+    await expect(withSpan(undefined, 'op', {}, fn)).resolves.toBeUndefined();
+  });
+
+  it('should set attributes and end the span', async () => {
+    await expect(
+      withSpan(tracer, 'op', { 'memolock.key': 'a' }, async () => 1),
+    ).resolves.toBe(1);
+
+    expect(tracer.startActiveSpan).toHaveBeenCalledWith(
+      'op',
+      expect.any(Function),
+    );
+    expect(span.setAttribute).toHaveBeenCalledWith('memolock.key', 'a');
+    expect(span.end).toHaveBeenCalled();
+  });
+
+  it('should describe errors that are not Error instances', async () => {
+    await expect(
+      withSpan(tracer, 'op', {}, () => Promise.reject('thrown string')),
+    ).rejects.toBe('thrown string');
+
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: 'thrown string',
+    });
+  });
+});